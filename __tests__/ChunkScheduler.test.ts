@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import type { Node } from "../src/client";
+import { RequestPool } from "../src/pool";
+import { ChunkScheduler, type Chunk } from "../src/scheduler";
+
+function createNode(id: string, offset: number): Node {
+  return {
+    id,
+    commenter: null,
+    contentOffsetSeconds: offset,
+    createdAt: new Date(offset * 1000).toISOString(),
+    message: {
+      fragments: [{ emote: null, text: id }],
+      userBadges: [],
+      userColor: null,
+    },
+  } as Node;
+}
+
+/**
+ * Fetch one node per second, ten per page, until the end of the chunk
+ */
+async function fetchDenseChunk(chunk: Chunk, onPage: () => void) {
+  const nodes: Node[] = [];
+  for (let offset = chunk.start; offset < chunk.end; offset++) {
+    nodes.push(createNode(`${offset}`, offset));
+    chunk.offset = offset;
+    chunk.count++;
+    if (nodes.length % 10 === 0 && offset + 1 < chunk.end) {
+      chunk.pages++;
+      onPage();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+  return nodes;
+}
+
+describe("ChunkScheduler", () => {
+  it("should split running chunks for idle walkers without overlap", async () => {
+    const fetched: Chunk[] = [];
+    const scheduler = new ChunkScheduler({
+      concurrency: 4,
+      fetchChunk: (chunk, onPage) => {
+        fetched.push(chunk);
+        return fetchDenseChunk(chunk, onPage);
+      },
+    });
+    scheduler.add(0, 1000);
+
+    await scheduler.run();
+
+    const offsets: number[] = [];
+    for await (const nodes of scheduler.results()) {
+      offsets.push(...nodes.map((node) => node.contentOffsetSeconds));
+    }
+
+    expect(fetched.length).toBeGreaterThan(1);
+    expect(offsets).toEqual(Array.from({ length: 1000 }, (_, i) => i));
+  });
+
+  it("should yield chunks completed before a failure", async () => {
+    const scheduler = new ChunkScheduler({
+      concurrency: 2,
+      fetchChunk: async (chunk) => {
+        if (chunk.start > 0) {
+          throw new Error("boom");
+        }
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        return [createNode("a", 0)];
+      },
+    });
+    scheduler.add(0, 50);
+    scheduler.add(50, 100);
+
+    await expect(scheduler.run()).rejects.toThrow("boom");
+
+    const ids: string[] = [];
+    await expect(
+      (async () => {
+        for await (const nodes of scheduler.results()) {
+          ids.push(...nodes.map((node) => node.id));
+        }
+      })(),
+    ).rejects.toThrow("boom");
+    expect(ids).toEqual(["a"]);
+  });
+});
+
+describe("RequestPool", () => {
+  it("should limit the number of tasks running at the same time", async () => {
+    const pool = new RequestPool(2);
+    let active = 0;
+    let maxActive = 0;
+
+    await Promise.all(
+      Array.from({ length: 6 }, () =>
+        pool.run(async () => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await new Promise((resolve) => setTimeout(resolve, 0));
+          active--;
+        }),
+      ),
+    );
+
+    expect(maxActive).toBe(2);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { appendFile, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileCheckpointStore } from "../src/checkpoint";
+
+function createNode(id: string, contentOffsetSeconds: number) {
+  return {
+    id,
+    commenter: null,
+    contentOffsetSeconds,
+    createdAt: "2024-01-01T00:00:00Z",
+    message: {
+      fragments: [{ text: id, emote: null }],
+      userBadges: [],
+      userColor: null,
+    },
+  };
+}
+
+describe("FileCheckpointStore", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "twitch-vod-messages-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should return no chunks for an unknown video", async () => {
+    const store = new FileCheckpointStore(directory);
+
+    await expect(store.load("12345")).resolves.toEqual([]);
+  });
+
+  it("should load saved chunks", async () => {
+    const store = new FileCheckpointStore(join(directory, "nested"));
+
+    await Promise.all([
+      store.save("12345", { start: 0, end: 50, nodes: [createNode("a", 10)] }),
+      store.save("12345", { start: 50, end: 100, nodes: [] }),
+    ]);
+
+    await expect(store.load("12345")).resolves.toEqual([
+      { start: 0, end: 50, nodes: [createNode("a", 10)] },
+      { start: 50, end: 100, nodes: [] },
+    ]);
+    await expect(store.load("67890")).resolves.toEqual([]);
+  });
+
+  it("should ignore an incomplete last line", async () => {
+    const store = new FileCheckpointStore(directory);
+
+    await store.save("12345", { start: 0, end: 50, nodes: [] });
+    await appendFile(join(directory, "12345.jsonl"), '{"start":50,"en');
+
+    await expect(store.load("12345")).resolves.toEqual([
+      { start: 0, end: 50, nodes: [] },
+    ]);
+  });
+
+  it("should clear saved chunks", async () => {
+    const store = new FileCheckpointStore(directory);
+
+    await store.save("12345", { start: 0, end: 50, nodes: [] });
+    await store.clear("12345");
+
+    await expect(store.load("12345")).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileResponseCache } from "../src/cache";
+
+describe("FileResponseCache", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "twitch-vod-messages-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should return nothing for an unknown key", async () => {
+    const cache = new FileResponseCache(directory);
+
+    await expect(cache.get("comments:hash:12345:offset:0")).resolves.toBe(
+      undefined,
+    );
+  });
+
+  it("should get stored entries", async () => {
+    const cache = new FileResponseCache(join(directory, "nested"));
+    const entry = { value: { data: { video: null } }, storedAt: 1000 };
+
+    await cache.set("comments:hash:12345:offset:0", entry);
+
+    await expect(cache.get("comments:hash:12345:offset:0")).resolves.toEqual(
+      entry,
+    );
+    await expect(cache.get("comments:hash:12345:offset:60")).resolves.toBe(
+      undefined,
+    );
+  });
+
+  it("should ignore an incomplete file", async () => {
+    const cache = new FileResponseCache(directory);
+
+    await cache.set("client-id", { value: "test-client-id", storedAt: 1000 });
+    const [file] = await readdir(directory);
+    await writeFile(join(directory, file!), '{"value":"test-cli');
+
+    await expect(cache.get("client-id")).resolves.toBe(undefined);
+  });
+
+  it("should delete stored entries", async () => {
+    const cache = new FileResponseCache(directory);
+
+    await cache.set("client-id", { value: "test-client-id", storedAt: 1000 });
+    await cache.delete("client-id");
+
+    await expect(cache.get("client-id")).resolves.toBe(undefined);
+  });
+});
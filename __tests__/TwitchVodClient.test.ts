@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TwitchVodClient } from "../src/client";
+import { AuthenticationError, HttpError } from "../src/errors";
+
+// Mock globalThis.fetch
+(globalThis as any).fetch = vi.fn();
+
+function mockHtml(clientId: string) {
+  ((globalThis as any).fetch as any).mockResolvedValueOnce({
+    ok: true,
+    text: () => Promise.resolve(`<html>clientId="${clientId}"</html>`),
+  });
+}
+
+function mockEmptyComments() {
+  ((globalThis as any).fetch as any).mockResolvedValueOnce({
+    ok: true,
+    json: () =>
+      Promise.resolve([
+        {
+          data: {
+            video: {
+              comments: {
+                edges: [],
+                pageInfo: {
+                  hasNextPage: false,
+                  hasPreviousPage: false,
+                },
+              },
+            },
+          },
+        },
+      ]),
+  });
+}
+
+function authorizationHeaderOf(call: number): string | undefined {
+  return ((globalThis as any).fetch as any).mock.calls[call][1].headers[
+    "authorization"
+  ];
+}
+
+function mockUnauthorized() {
+  ((globalThis as any).fetch as any).mockResolvedValueOnce({
+    ok: false,
+    status: 401,
+    headers: new Headers(),
+  });
+}
+
+function clientIdHeaderOf(call: number): string {
+  return ((globalThis as any).fetch as any).mock.calls[call][1].headers[
+    "client-id"
+  ];
+}
+
+describe("TwitchVodClient", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe("Normal cases", () => {
+    it("should scrape the client ID once and reuse it", async () => {
+      mockHtml("test-client-id");
+      mockEmptyComments();
+      mockEmptyComments();
+
+      const client = new TwitchVodClient();
+      await client.fetchMessages("12345");
+      await client.fetchMessages("12345", { contentOffsetSeconds: 60 });
+
+      expect((globalThis as any).fetch).toHaveBeenCalledTimes(3);
+      expect(clientIdHeaderOf(1)).toBe("test-client-id");
+      expect(clientIdHeaderOf(2)).toBe("test-client-id");
+    });
+
+    it("should use the explicit client ID without scraping", async () => {
+      mockEmptyComments();
+
+      const client = new TwitchVodClient({ clientId: "explicit-client-id" });
+      await client.fetchMessages("12345");
+
+      expect((globalThis as any).fetch).toHaveBeenCalledTimes(1);
+      expect(clientIdHeaderOf(0)).toBe("explicit-client-id");
+    });
+
+    it("should scrape the client ID again once when it is rejected", async () => {
+      mockHtml("stale-client-id");
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        headers: new Headers(),
+      });
+      mockHtml("fresh-client-id");
+      mockEmptyComments();
+
+      const client = new TwitchVodClient();
+      const result = await client.fetchMessages("12345");
+
+      expect(result.nodes).toHaveLength(0);
+      expect(clientIdHeaderOf(1)).toBe("stale-client-id");
+      expect(clientIdHeaderOf(3)).toBe("fresh-client-id");
+    });
+  });
+
+  describe("Error cases", () => {
+    it("should throw HTTP error when the explicit client ID is rejected", async () => {
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        headers: new Headers(),
+      });
+
+      const client = new TwitchVodClient({ clientId: "invalid-client-id" });
+
+      await expect(client.fetchMessages("12345")).rejects.toThrow(HttpError);
+      expect((globalThis as any).fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("OAuth token", () => {
+    it("should send the token with every GraphQL request", async () => {
+      // Metadata lookup
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            data: {
+              video: {
+                id: "12345",
+                title: null,
+                lengthSeconds: 100,
+                createdAt: "2024-01-01T00:00:00Z",
+                publishedAt: null,
+                viewCount: 0,
+                owner: null,
+                game: null,
+              },
+            },
+          }),
+      });
+      mockEmptyComments();
+
+      const client = new TwitchVodClient({
+        clientId: "explicit-client-id",
+        authToken: "test-token",
+      });
+      await client.fetchAllMessages("12345", { concurrency: 1 });
+
+      expect(authorizationHeaderOf(0)).toBe("OAuth test-token");
+      expect(authorizationHeaderOf(1)).toBe("OAuth test-token");
+    });
+
+    it("should not send an authorization header without a token", async () => {
+      mockEmptyComments();
+
+      const client = new TwitchVodClient({ clientId: "explicit-client-id" });
+      await client.fetchMessages("12345");
+
+      expect(authorizationHeaderOf(0)).toBeUndefined();
+    });
+
+    it("should refresh the token once when it is rejected", async () => {
+      mockUnauthorized();
+      mockEmptyComments();
+      const authToken = vi
+        .fn()
+        .mockResolvedValueOnce("expired-token")
+        .mockResolvedValueOnce("fresh-token");
+
+      const client = new TwitchVodClient({
+        clientId: "explicit-client-id",
+        authToken,
+      });
+      await client.fetchMessages("12345");
+
+      expect(authToken).toHaveBeenCalledTimes(2);
+      expect(authorizationHeaderOf(0)).toBe("OAuth expired-token");
+      expect(authorizationHeaderOf(1)).toBe("OAuth fresh-token");
+    });
+
+    it("should throw AuthenticationError when the token is rejected", async () => {
+      mockUnauthorized();
+
+      const client = new TwitchVodClient({
+        clientId: "explicit-client-id",
+        authToken: "invalid-token",
+      });
+      const error = await client.fetchMessages("12345").catch((e) => e);
+
+      expect(error).toBeInstanceOf(AuthenticationError);
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.statusCode).toBe(401);
+      expect((globalThis as any).fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should throw AuthenticationError when the refreshed token is rejected", async () => {
+      mockUnauthorized();
+      mockUnauthorized();
+      const authToken = vi
+        .fn()
+        .mockResolvedValueOnce("expired-token")
+        .mockResolvedValueOnce("revoked-token");
+
+      const client = new TwitchVodClient({
+        clientId: "explicit-client-id",
+        authToken,
+      });
+
+      await expect(client.fetchMessages("12345")).rejects.toThrow(
+        AuthenticationError,
+      );
+      expect((globalThis as any).fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { decodeBadges } from "../src/badges";
+
+describe("decodeBadges", () => {
+  describe("Normal cases", () => {
+    it("should decode roles from known badges", () => {
+      expect(
+        decodeBadges([
+          { setId: "broadcaster", version: "1" },
+          { setId: "moderator", version: "1" },
+          { setId: "vip", version: "1" },
+          { setId: "staff", version: "1" },
+          { setId: "founder", version: "0" },
+          { setId: "bits", version: "1000" },
+        ]),
+      ).toEqual({
+        broadcaster: true,
+        moderator: true,
+        vip: true,
+        staff: true,
+        subscriber: null,
+        founder: true,
+        bits: 1000,
+        unknownBadges: [],
+      });
+    });
+
+    it("should decode subscriber months and tier", () => {
+      expect(
+        decodeBadges([{ setId: "subscriber", version: "0" }]).subscriber,
+      ).toEqual({ months: 1, tier: 1 });
+      expect(
+        decodeBadges([{ setId: "subscriber", version: "24" }]).subscriber,
+      ).toEqual({ months: 24, tier: 1 });
+      expect(
+        decodeBadges([{ setId: "subscriber", version: "2006" }]).subscriber,
+      ).toEqual({ months: 6, tier: 2 });
+      expect(
+        decodeBadges([{ setId: "subscriber", version: "3012" }]).subscriber,
+      ).toEqual({ months: 12, tier: 3 });
+    });
+
+    it("should keep unknown badges and versions as they are", () => {
+      const roles = decodeBadges([
+        { setId: "premium", version: "1" },
+        { setId: "subscriber", version: "custom" },
+        { setId: "bits", version: "" },
+      ]);
+
+      expect(roles.subscriber).toBeNull();
+      expect(roles.bits).toBeNull();
+      expect(roles.unknownBadges).toEqual([
+        { setId: "premium", version: "1" },
+        { setId: "subscriber", version: "custom" },
+        { setId: "bits", version: "" },
+      ]);
+    });
+  });
+});
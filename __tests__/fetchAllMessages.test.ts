@@ -1,13 +1,25 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { fetchAllMessages } from "../src/client";
-import { HttpError, ResponseParseError } from "../src/errors";
+import {
+  fetchAllMessages,
+  streamAllMessages,
+  type FetchAllMessagesEvent,
+} from "../src/client";
+import { MemoryResponseCache } from "../src/cache";
+import {
+  AbortError,
+  HttpError,
+  InvalidInputError,
+  ResponseParseError,
+  VideoNotFoundError,
+  VideoRestrictedError,
+} from "../src/errors";
 
 // Mock globalThis.fetch
 (globalThis as any).fetch = vi.fn();
 
 describe("fetchAllMessages", () => {
   beforeEach(() => {
-    vi.clearAllMocks();
+    vi.resetAllMocks();
   });
 
   describe("Normal cases", () => {
@@ -18,6 +30,13 @@ describe("fetchAllMessages", () => {
         text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
       });
 
+      // Metadata lookup fails, so the length is probed
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        headers: new Headers(),
+      });
+
       // 2nd-7th calls: Probe requests (6 offsets: 0, 3600, 7200, 10800, 14400, 18000)
       // Probe 0: hasNextPage = true
       ((globalThis as any).fetch as any).mockResolvedValueOnce({
@@ -169,6 +188,66 @@ describe("fetchAllMessages", () => {
       }
     });
 
+    it("should use the length from video metadata without probing", async () => {
+      // retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      // Metadata lookup
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            data: {
+              video: {
+                id: "12345",
+                title: "Test Stream",
+                lengthSeconds: 100,
+                createdAt: "2024-01-01T00:00:00Z",
+                publishedAt: null,
+                viewCount: 0,
+                owner: null,
+                game: null,
+              },
+            },
+          }),
+      });
+
+      // Chunk fetches (concurrency=2, lengthSeconds=100)
+      for (let i = 0; i < 2; i++) {
+        ((globalThis as any).fetch as any).mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve([
+              {
+                data: {
+                  video: {
+                    comments: {
+                      edges: [],
+                      pageInfo: {
+                        hasNextPage: false,
+                        hasPreviousPage: false,
+                      },
+                    },
+                  },
+                },
+              },
+            ]),
+        });
+      }
+
+      await fetchAllMessages("12345", { concurrency: 2 });
+
+      const calls = ((globalThis as any).fetch as any).mock.calls;
+      expect(calls).toHaveLength(4);
+      expect(JSON.parse(calls[3][1].body)[0].variables).toEqual({
+        videoID: "12345",
+        contentOffsetSeconds: 50,
+      });
+    });
+
     it("should skip probe when lengthSeconds is provided", async () => {
       // 1st call: HTML for retrieveClientId
       ((globalThis as any).fetch as any).mockResolvedValueOnce({
@@ -225,6 +304,297 @@ describe("fetchAllMessages", () => {
       expect(messages).toHaveLength(2);
     });
 
+    it("should return chat messages when normalize is true", async () => {
+      // 1st call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      // 2nd call: Chunk fetch
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            {
+              data: {
+                video: {
+                  comments: {
+                    edges: [
+                      {
+                        cursor: "cursor1",
+                        node: {
+                          id: "comment1",
+                          commenter: {
+                            id: "user1",
+                            login: "testuser1",
+                            displayName: "TestUser1",
+                          },
+                          contentOffsetSeconds: 10,
+                          createdAt: "2024-01-01T00:00:00Z",
+                          message: {
+                            fragments: [
+                              { text: "hi ", emote: null },
+                              {
+                                text: "Kappa",
+                                emote: { id: "25;3;7", emoteID: "25", from: 3 },
+                              },
+                            ],
+                            userBadges: [],
+                            userColor: null,
+                          },
+                        },
+                      },
+                    ],
+                    pageInfo: {
+                      hasNextPage: false,
+                      hasPreviousPage: false,
+                    },
+                  },
+                },
+              },
+            },
+          ]),
+      });
+
+      const messages = await fetchAllMessages("12345", {
+        concurrency: 1,
+        lengthSeconds: 100,
+        normalize: true,
+      });
+
+      expect(messages).toHaveLength(1);
+      expect(messages[0]?.text).toBe("hi Kappa");
+      expect(messages[0]?.createdAt).toEqual(new Date("2024-01-01T00:00:00Z"));
+      expect(messages[0]?.author?.login).toBe("testuser1");
+      expect(messages[0]?.emotes).toMatchObject([
+        { id: "25", start: 3, end: 8 },
+      ]);
+    });
+
+    it("should follow cursors between pages within a chunk", async () => {
+      // retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      const createNode = (id: string, contentOffsetSeconds: number) => ({
+        id,
+        commenter: null,
+        contentOffsetSeconds,
+        createdAt: "2024-01-01T00:00:00Z",
+        message: {
+          fragments: [{ text: id, emote: null }],
+          userBadges: [],
+          userColor: null,
+        },
+      });
+
+      // 1st page: both comments share the same second
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            {
+              data: {
+                video: {
+                  comments: {
+                    edges: [
+                      { cursor: "cursorA", node: createNode("a", 10) },
+                      { cursor: "cursorB", node: createNode("b", 10) },
+                    ],
+                    pageInfo: {
+                      hasNextPage: true,
+                      hasPreviousPage: false,
+                    },
+                  },
+                },
+              },
+            },
+          ]),
+      });
+
+      // 2nd page: continues at the same second
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            {
+              data: {
+                video: {
+                  comments: {
+                    edges: [
+                      { cursor: "cursorC", node: createNode("c", 10) },
+                      { cursor: "cursorD", node: createNode("d", 20) },
+                    ],
+                    pageInfo: {
+                      hasNextPage: false,
+                      hasPreviousPage: true,
+                    },
+                  },
+                },
+              },
+            },
+          ]),
+      });
+
+      const messages = await fetchAllMessages("12345", {
+        concurrency: 1,
+        lengthSeconds: 100,
+      });
+
+      expect(messages.map((node) => node.id)).toEqual(["a", "b", "c", "d"]);
+
+      const calls = ((globalThis as any).fetch as any).mock.calls;
+      expect(JSON.parse(calls[1][1].body)[0].variables).toEqual({
+        videoID: "12345",
+        contentOffsetSeconds: 0,
+      });
+      expect(JSON.parse(calls[2][1].body)[0].variables).toEqual({
+        videoID: "12345",
+        cursor: "cursorB",
+      });
+    });
+
+    it("should reuse chunks recorded in the checkpoint", async () => {
+      // retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      const createNode = (id: string, contentOffsetSeconds: number) => ({
+        id,
+        commenter: null,
+        contentOffsetSeconds,
+        createdAt: "2024-01-01T00:00:00Z",
+        message: {
+          fragments: [{ text: id, emote: null }],
+          userBadges: [],
+          userColor: null,
+        },
+      });
+
+      // Only the missing 2nd chunk is fetched
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            {
+              data: {
+                video: {
+                  comments: {
+                    edges: [{ cursor: "cursorB", node: createNode("b", 60) }],
+                    pageInfo: {
+                      hasNextPage: false,
+                      hasPreviousPage: false,
+                    },
+                  },
+                },
+              },
+            },
+          ]),
+      });
+
+      const checkpoint = {
+        load: vi
+          .fn()
+          .mockResolvedValue([
+            { start: 0, end: 50, nodes: [createNode("a", 10)] },
+          ]),
+        save: vi.fn().mockResolvedValue(undefined),
+        clear: vi.fn(),
+      };
+
+      const messages = await fetchAllMessages("12345", {
+        concurrency: 2,
+        lengthSeconds: 100,
+        checkpoint,
+      });
+
+      expect(messages.map((node) => node.id)).toEqual(["a", "b"]);
+      expect((globalThis as any).fetch).toHaveBeenCalledTimes(2);
+      expect(
+        JSON.parse(((globalThis as any).fetch as any).mock.calls[1][1].body)[0]
+          .variables.contentOffsetSeconds,
+      ).toBe(50);
+      expect(checkpoint.save).toHaveBeenCalledTimes(1);
+      expect(checkpoint.save).toHaveBeenCalledWith("12345", {
+        start: 50,
+        end: 100,
+        nodes: [createNode("b", 60)],
+      });
+    });
+
+    it("should not request cached pages and Client ID again", async () => {
+      // retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      const createNode = (id: string, contentOffsetSeconds: number) => ({
+        id,
+        commenter: null,
+        contentOffsetSeconds,
+        createdAt: "2024-01-01T00:00:00Z",
+        message: {
+          fragments: [{ text: id, emote: null }],
+          userBadges: [],
+          userColor: null,
+        },
+      });
+
+      // 1st page, followed by cursor
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            {
+              data: {
+                video: {
+                  comments: {
+                    edges: [{ cursor: "cursorA", node: createNode("a", 10) }],
+                    pageInfo: { hasNextPage: true, hasPreviousPage: false },
+                  },
+                },
+              },
+            },
+          ]),
+      });
+
+      // 2nd page
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            {
+              data: {
+                video: {
+                  comments: {
+                    edges: [{ cursor: "cursorB", node: createNode("b", 20) }],
+                    pageInfo: { hasNextPage: false, hasPreviousPage: true },
+                  },
+                },
+              },
+            },
+          ]),
+      });
+
+      const options = {
+        concurrency: 1,
+        lengthSeconds: 100,
+        cache: { store: new MemoryResponseCache() },
+      };
+      const first = await fetchAllMessages("12345", options);
+      const second = await fetchAllMessages("12345", options);
+
+      expect(second).toEqual(first);
+      expect(second.map((node) => node.id)).toEqual(["a", "b"]);
+      expect((globalThis as any).fetch).toHaveBeenCalledTimes(3);
+    });
+
     it("should fallback to single fetch when estimatedlength is 0", async () => {
       // retrieveClientId
       ((globalThis as any).fetch as any).mockResolvedValueOnce({
@@ -232,6 +602,13 @@ describe("fetchAllMessages", () => {
         text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
       });
 
+      // Metadata lookup fails, so the length is probed
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        headers: new Headers(),
+      });
+
       // All 17 probes return no comments
       for (let i = 0; i < 17; i++) {
         ((globalThis as any).fetch as any).mockResolvedValueOnce({
@@ -241,7 +618,13 @@ describe("fetchAllMessages", () => {
               {
                 data: {
                   video: {
-                    comments: null,
+                    comments: {
+                      edges: [],
+                      pageInfo: {
+                        hasNextPage: false,
+                        hasPreviousPage: false,
+                      },
+                    },
                   },
                 },
               },
@@ -257,7 +640,13 @@ describe("fetchAllMessages", () => {
             {
               data: {
                 video: {
-                  comments: null,
+                  comments: {
+                    edges: [],
+                    pageInfo: {
+                      hasNextPage: false,
+                      hasPreviousPage: false,
+                    },
+                  },
                 },
               },
             },
@@ -269,33 +658,206 @@ describe("fetchAllMessages", () => {
       // Should return empty array when no comments
       expect(messages).toHaveLength(0);
     });
-  });
 
-  describe("Error cases", () => {
-    it("should throw HTTP error when probe request fails", async () => {
+    it("should report edges skipped in lenient mode", async () => {
       // retrieveClientId
       ((globalThis as any).fetch as any).mockResolvedValueOnce({
         ok: true,
         text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
       });
 
-      // First probe request fails
-      ((globalThis as any).fetch as any).mockResolvedValueOnce({
-        ok: false,
-        status: 500,
-      });
-
-      await expect(fetchAllMessages("12345")).rejects.toThrow(HttpError);
-    });
-
-    it("should throw error on invalid probe response", async () => {
-      // retrieveClientId
       ((globalThis as any).fetch as any).mockResolvedValueOnce({
         ok: true,
-        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
-      });
-
-      // All 17 probe requests return invalid response (Promise.all runs all 17)
+        json: () =>
+          Promise.resolve([
+            {
+              data: {
+                video: {
+                  comments: {
+                    edges: [
+                      {
+                        cursor: "cursor-a",
+                        node: {
+                          id: "a",
+                          commenter: null,
+                          contentOffsetSeconds: 10,
+                          createdAt: "2024-01-01T00:00:00Z",
+                          message: {
+                            fragments: [{ text: "a", emote: null }],
+                            userBadges: [],
+                            userColor: null,
+                          },
+                        },
+                      },
+                      { cursor: "cursor-b", node: { id: "b" } },
+                    ],
+                    pageInfo: { hasNextPage: false, hasPreviousPage: false },
+                  },
+                },
+              },
+            },
+          ]),
+      });
+
+      const skipped: unknown[] = [];
+      const messages = await fetchAllMessages("12345", {
+        concurrency: 1,
+        lengthSeconds: 100,
+        parseMode: "lenient",
+        onSkippedEdge: ({ edge }) => skipped.push(edge),
+      });
+
+      expect(messages.map((message) => message.id)).toEqual(["a"]);
+      expect(skipped).toEqual([{ cursor: "cursor-b", node: { id: "b" } }]);
+    });
+
+    it("should report a skipped edge once when chunks overlap", async () => {
+      // retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      const valid = (id: string, offset: number) => ({
+        cursor: `cursor-${id}`,
+        node: {
+          id,
+          commenter: null,
+          contentOffsetSeconds: offset,
+          createdAt: "2024-01-01T00:00:00Z",
+          message: {
+            fragments: [{ text: id, emote: null }],
+            userBadges: [],
+            userColor: null,
+          },
+        },
+      });
+      // x belongs to the 2nd chunk, y has no offset to tell
+      const x = {
+        cursor: "cursor-x",
+        node: { id: "x", contentOffsetSeconds: 55 },
+      };
+      const y = { cursor: "cursor-y", node: { id: "y" } };
+      const page = (edges: unknown[]) => ({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            {
+              data: {
+                video: {
+                  comments: {
+                    edges,
+                    pageInfo: { hasNextPage: false, hasPreviousPage: false },
+                  },
+                },
+              },
+            },
+          ]),
+      });
+      // Chunk fetches (concurrency=2, lengthSeconds=100)
+      ((globalThis as any).fetch as any).mockResolvedValueOnce(
+        page([valid("a", 10), y, x]),
+      );
+      ((globalThis as any).fetch as any).mockResolvedValueOnce(
+        page([y, x, valid("b", 60)]),
+      );
+
+      const skipped: string[] = [];
+      await fetchAllMessages("12345", {
+        concurrency: 2,
+        lengthSeconds: 100,
+        parseMode: "lenient",
+        onSkippedEdge: ({ edge }) => skipped.push((edge as any).node.id),
+      });
+
+      expect(skipped.sort()).toEqual(["x", "y"]);
+    });
+
+    it("should limit chunks to the window between startSeconds and the video length", async () => {
+      // retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      // Chunk fetches (concurrency=2, window 60-100)
+      for (let i = 0; i < 2; i++) {
+        ((globalThis as any).fetch as any).mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve([
+              {
+                data: {
+                  video: {
+                    comments: {
+                      edges: [],
+                      pageInfo: {
+                        hasNextPage: false,
+                        hasPreviousPage: false,
+                      },
+                    },
+                  },
+                },
+              },
+            ]),
+        });
+      }
+
+      await fetchAllMessages("12345", {
+        concurrency: 2,
+        lengthSeconds: 100,
+        startSeconds: 60,
+        endSeconds: 500,
+      });
+
+      const calls = ((globalThis as any).fetch as any).mock.calls;
+      expect(calls).toHaveLength(3);
+      expect(
+        calls
+          .slice(1)
+          .map((call: any) => JSON.parse(call[1].body)[0].variables),
+      ).toEqual([
+        { videoID: "12345", contentOffsetSeconds: 60 },
+        { videoID: "12345", contentOffsetSeconds: 80 },
+      ]);
+    });
+  });
+
+  describe("Error cases", () => {
+    it("should throw HTTP error when probe request fails", async () => {
+      // retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      // Probe requests fail on every attempt
+      ((globalThis as any).fetch as any).mockResolvedValue({
+        ok: false,
+        status: 500,
+        headers: new Headers(),
+      });
+
+      await expect(
+        fetchAllMessages("12345", { retry: { baseDelayMs: 0 } }),
+      ).rejects.toThrow(HttpError);
+    });
+
+    it("should throw error on invalid probe response", async () => {
+      // retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      // Metadata lookup fails, so the length is probed
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        headers: new Headers(),
+      });
+
+      // All 17 probe requests return invalid response (Promise.all runs all 17)
       for (let i = 0; i < 17; i++) {
         ((globalThis as any).fetch as any).mockResolvedValueOnce({
           ok: true,
@@ -307,5 +869,412 @@ describe("fetchAllMessages", () => {
         ResponseParseError,
       );
     });
+
+    it("should throw VideoNotFoundError without probing when the video does not exist", async () => {
+      // retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      // Metadata lookup returns no video
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ data: { video: null } }),
+      });
+
+      await expect(fetchAllMessages("12345")).rejects.toThrow(
+        VideoNotFoundError,
+      );
+      expect((globalThis as any).fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should throw VideoRestrictedError without probing when access to the video is denied", async () => {
+      // retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      // Metadata lookup returns no video, with errors
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            data: { video: null },
+            errors: [{ message: "forbidden", path: ["video"] }],
+          }),
+      });
+
+      await expect(fetchAllMessages("12345")).rejects.toThrow(
+        VideoRestrictedError,
+      );
+      expect((globalThis as any).fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should throw InvalidInputError when the window is empty", async () => {
+      for (const options of [
+        { startSeconds: 80, endSeconds: 20 },
+        { startSeconds: 150, lengthSeconds: 100 },
+      ]) {
+        // retrieveClientId
+        ((globalThis as any).fetch as any).mockResolvedValueOnce({
+          ok: true,
+          text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+        });
+
+        await expect(fetchAllMessages("12345", options)).rejects.toThrow(
+          InvalidInputError,
+        );
+      }
+
+      // No comment page is requested
+      expect((globalThis as any).fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should reject with AbortError listing completed chunks when aborted", async () => {
+      // retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      // 1st chunk completes
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            {
+              data: {
+                video: {
+                  comments: {
+                    edges: [],
+                    pageInfo: {
+                      hasNextPage: false,
+                      hasPreviousPage: false,
+                    },
+                  },
+                },
+              },
+            },
+          ]),
+      });
+
+      // 2nd chunk hangs until aborted
+      let hanging = false;
+      ((globalThis as any).fetch as any).mockImplementationOnce(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            hanging = true;
+            init.signal!.addEventListener("abort", () => {
+              reject(new DOMException("Aborted", "AbortError"));
+            });
+          }),
+      );
+
+      const controller = new AbortController();
+      const promise = fetchAllMessages("12345", {
+        concurrency: 2,
+        lengthSeconds: 100,
+        signal: controller.signal,
+      });
+      await vi.waitFor(() => {
+        expect(hanging).toBe(true);
+      });
+      controller.abort();
+
+      const error = await promise.catch((e) => e);
+      expect(error).toBeInstanceOf(AbortError);
+      expect(error.completedChunks).toEqual([{ start: 0, end: 50 }]);
+    });
+  });
+
+  describe("Batching", () => {
+    const createResult = (id: string, contentOffsetSeconds: number) => ({
+      data: {
+        video: {
+          comments: {
+            edges: [
+              {
+                cursor: `cursor-${id}`,
+                node: {
+                  id,
+                  commenter: null,
+                  contentOffsetSeconds,
+                  createdAt: "2024-01-01T00:00:00Z",
+                  message: {
+                    fragments: [{ text: id, emote: null }],
+                    userBadges: [],
+                    userColor: null,
+                  },
+                },
+              },
+            ],
+            pageInfo: {
+              hasNextPage: false,
+              hasPreviousPage: false,
+            },
+          },
+        },
+      },
+    });
+
+    it("should request the pages of concurrent chunks in a single request", async () => {
+      // retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      // One batch with the first page of each chunk
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            createResult("a", 10),
+            createResult("b", 110),
+            createResult("c", 210),
+          ]),
+      });
+
+      const messages = await fetchAllMessages("12345", {
+        concurrency: 3,
+        lengthSeconds: 300,
+        batchSize: 10,
+      });
+
+      const calls = ((globalThis as any).fetch as any).mock.calls;
+      expect(calls).toHaveLength(2);
+      expect(
+        JSON.parse(calls[1][1].body).map(
+          (operation: any) => operation.variables,
+        ),
+      ).toEqual([
+        { videoID: "12345", contentOffsetSeconds: 0 },
+        { videoID: "12345", contentOffsetSeconds: 100 },
+        { videoID: "12345", contentOffsetSeconds: 200 },
+      ]);
+      expect(messages.map((message) => message.id)).toEqual(["a", "b", "c"]);
+    });
+
+    it("should split pages into batches of the maximum size", async () => {
+      // retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([createResult("a", 10), createResult("b", 110)]),
+      });
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([createResult("c", 210)]),
+      });
+
+      const messages = await fetchAllMessages("12345", {
+        concurrency: 3,
+        lengthSeconds: 300,
+        batchSize: 2,
+      });
+
+      expect((globalThis as any).fetch).toHaveBeenCalledTimes(3);
+      expect(messages.map((message) => message.id)).toEqual(["a", "b", "c"]);
+    });
+
+    it("should reject only the page whose result is invalid", async () => {
+      // retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([createResult("a", 10), { invalid: "result" }]),
+      });
+
+      const nodes: string[] = [];
+      const error = await (async () => {
+        for await (const node of streamAllMessages("12345", {
+          concurrency: 2,
+          lengthSeconds: 100,
+          batchSize: 2,
+        })) {
+          nodes.push(node.id);
+        }
+      })().catch((e) => e);
+
+      expect(nodes).toEqual(["a"]);
+      expect(error).toBeInstanceOf(ResponseParseError);
+    });
+
+    it("should throw ResponseParseError when results do not match operations", async () => {
+      // retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([createResult("a", 10)]),
+      });
+
+      await expect(
+        fetchAllMessages("12345", {
+          concurrency: 2,
+          lengthSeconds: 100,
+          batchSize: 2,
+        }),
+      ).rejects.toThrow(ResponseParseError);
+    });
+  });
+  describe("Events", () => {
+    const pageBody = (
+      id: string,
+      contentOffsetSeconds: number,
+      hasNextPage: boolean,
+    ) =>
+      JSON.stringify([
+        {
+          data: {
+            video: {
+              comments: {
+                edges: [
+                  {
+                    cursor: `cursor-${id}`,
+                    node: {
+                      id,
+                      commenter: null,
+                      contentOffsetSeconds,
+                      createdAt: "2024-01-01T00:00:00Z",
+                      message: {
+                        fragments: [{ text: id, emote: null }],
+                        userBadges: [],
+                        userColor: null,
+                      },
+                    },
+                  },
+                ],
+                pageInfo: { hasNextPage, hasPreviousPage: false },
+              },
+            },
+          },
+        },
+      ]);
+    const createPage = (
+      id: string,
+      contentOffsetSeconds: number,
+      hasNextPage: boolean,
+    ) => new Response(pageBody(id, contentOffsetSeconds, hasNextPage));
+
+    it("should emit phase changes and an update after each page", async () => {
+      // retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+      // Metadata lookup
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            data: {
+              video: {
+                id: "12345",
+                title: null,
+                lengthSeconds: 100,
+                createdAt: "2024-01-01T00:00:00Z",
+                publishedAt: null,
+                viewCount: 0,
+                owner: null,
+                game: null,
+              },
+            },
+          }),
+      });
+      ((globalThis as any).fetch as any).mockResolvedValueOnce(
+        createPage("a", 10, true),
+      );
+      ((globalThis as any).fetch as any).mockResolvedValueOnce(
+        createPage("b", 40, false),
+      );
+
+      const clone = vi.spyOn(Response.prototype, "clone");
+      const events: FetchAllMessagesEvent[] = [];
+      await fetchAllMessages("12345", {
+        concurrency: 1,
+        onEvent: (event) => events.push(event),
+      });
+      // Without an onResponse hook, bodies are measured as they are read
+      expect(clone).not.toHaveBeenCalled();
+      clone.mockRestore();
+
+      expect(
+        events.flatMap((event) =>
+          event.type === "phase" ? [event.phase] : [],
+        ),
+      ).toEqual(["client-id", "probe", "fetch", "merge"]);
+
+      const pages = events.filter((event) => event.type === "page");
+      expect(pages).toHaveLength(2);
+      expect(pages[0]).toMatchObject({
+        messages: 1,
+        pages: 1,
+        requests: 3,
+        bytes: pageBody("a", 10, true).length,
+        chunks: [{ start: 0, end: 100, offset: 10, messages: 1 }],
+        percentage: 10,
+      });
+      expect(pages[1]).toMatchObject({
+        messages: 2,
+        pages: 2,
+        requests: 4,
+        bytes: pageBody("a", 10, true).length + pageBody("b", 40, false).length,
+        percentage: 40,
+      });
+    });
+
+    it("should emit retry and error events", async () => {
+      // retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+      ((globalThis as any).fetch as any).mockResolvedValue({
+        ok: false,
+        status: 503,
+        headers: new Headers(),
+      });
+
+      const events: FetchAllMessagesEvent[] = [];
+      await expect(
+        fetchAllMessages("12345", {
+          concurrency: 1,
+          lengthSeconds: 100,
+          retry: { maxAttempts: 2, baseDelayMs: 0 },
+          onEvent: (event) => events.push(event),
+        }),
+      ).rejects.toThrow(HttpError);
+
+      expect(events.filter((event) => event.type === "retry")).toEqual([
+        {
+          type: "retry",
+          url: "https://gql.twitch.tv/gql",
+          attempt: 1,
+          delayMs: 0,
+          status: 503,
+          error: undefined,
+        },
+      ]);
+      expect(events.at(-1)).toMatchObject({
+        type: "error",
+        error: { statusCode: 503 },
+      });
+    });
   });
 });
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { fetchAllMessagesWithReport } from "../src/client";
+
+// Mock globalThis.fetch
+(globalThis as any).fetch = vi.fn();
+
+function mockHtml() {
+  ((globalThis as any).fetch as any).mockResolvedValueOnce({
+    ok: true,
+    text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+  });
+}
+
+function mockPage(
+  edges: Array<{ id: string; offset: number }>,
+  hasNextPage: boolean,
+) {
+  ((globalThis as any).fetch as any).mockResolvedValueOnce({
+    ok: true,
+    json: () =>
+      Promise.resolve([
+        {
+          data: {
+            video: {
+              comments: {
+                edges: edges.map(({ id, offset }) => ({
+                  cursor: `cursor-${id}`,
+                  node: {
+                    id,
+                    commenter: null,
+                    contentOffsetSeconds: offset,
+                    createdAt: "2024-01-01T00:00:00Z",
+                    message: {
+                      fragments: [{ text: id, emote: null }],
+                      userBadges: [],
+                      userColor: null,
+                    },
+                  },
+                })),
+                pageInfo: { hasNextPage, hasPreviousPage: false },
+              },
+            },
+          },
+        },
+      ]),
+  });
+}
+
+describe("fetchAllMessagesWithReport", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe("Normal cases", () => {
+    it("should report a complete run", async () => {
+      mockHtml();
+      // 1st chunk stops at a message beyond its end
+      mockPage(
+        [
+          { id: "a", offset: 10 },
+          { id: "b", offset: 60 },
+        ],
+        true,
+      );
+      // 2nd chunk reaches the end of the video
+      mockPage([{ id: "b", offset: 60 }], false);
+
+      const { messages, report } = await fetchAllMessagesWithReport("12345", {
+        concurrency: 2,
+        lengthSeconds: 100,
+      });
+
+      expect(messages.map((message) => message.id)).toEqual(["a", "b"]);
+      expect(report).toEqual({
+        startSeconds: 0,
+        endSeconds: 100,
+        coveredRanges: [{ start: 0, end: 100 }],
+        gaps: [],
+        duplicates: [],
+        pageCount: 2,
+        requestCount: 3,
+        endReached: true,
+        metrics: {
+          requests: 3,
+          retries: 0,
+          bytes: 0,
+          latencyMs: { p50: expect.any(Number), p95: expect.any(Number) },
+          durationSeconds: expect.any(Number),
+          messagesPerSecond: expect.any(Number),
+        },
+      });
+    });
+
+    it("should report a gap when a chunk ends early before messages", async () => {
+      mockHtml();
+      // 1st chunk reports no next page although the 2nd chunk has messages
+      mockPage([{ id: "a", offset: 10 }], false);
+      mockPage([{ id: "b", offset: 60 }], false);
+
+      const { report } = await fetchAllMessagesWithReport("12345", {
+        concurrency: 2,
+        lengthSeconds: 100,
+      });
+
+      expect(report.gaps).toEqual([{ start: 10, end: 50 }]);
+      expect(report.coveredRanges).toEqual([
+        { start: 0, end: 10 },
+        { start: 50, end: 100 },
+      ]);
+    });
+
+    it("should report a gap when a chunk stops on a page without cursor", async () => {
+      mockHtml();
+      // 1st chunk has a next page
+      mockPage([{ id: "a", offset: 10 }], true);
+      mockPage([{ id: "b", offset: 60 }], false);
+      // The next page of the 1st chunk is empty, so there is no cursor to follow
+      mockPage([], true);
+
+      const { messages, report } = await fetchAllMessagesWithReport("12345", {
+        concurrency: 2,
+        lengthSeconds: 100,
+      });
+
+      expect(messages.map((message) => message.id)).toEqual(["a", "b"]);
+      expect(report.gaps).toEqual([{ start: 10, end: 50 }]);
+      expect(report.coveredRanges).toEqual([
+        { start: 0, end: 10 },
+        { start: 50, end: 100 },
+      ]);
+    });
+
+    it("should report when the end of the video was not reached", async () => {
+      mockHtml();
+      // The video is longer than the given length
+      mockPage(
+        [
+          { id: "a", offset: 10 },
+          { id: "b", offset: 150 },
+        ],
+        true,
+      );
+
+      const { messages, report } = await fetchAllMessagesWithReport("12345", {
+        concurrency: 1,
+        lengthSeconds: 100,
+      });
+
+      expect(messages).toHaveLength(1);
+      expect(report.endReached).toBe(false);
+    });
+
+    it("should report messages returned by more than one chunk", async () => {
+      mockHtml();
+      mockPage([{ id: "a", offset: 10 }], false);
+      mockPage([{ id: "a", offset: 60 }], false);
+
+      const { messages, report } = await fetchAllMessagesWithReport("12345", {
+        concurrency: 2,
+        lengthSeconds: 100,
+      });
+
+      expect(messages).toHaveLength(1);
+      expect(report.duplicates).toEqual([{ id: "a", count: 2 }]);
+    });
+  });
+});
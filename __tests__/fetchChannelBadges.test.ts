@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { fetchChannelBadges } from "../src/client";
+import { ChannelNotFoundError, InvalidInputError } from "../src/errors";
+
+// Mock globalThis.fetch
+(globalThis as any).fetch = vi.fn();
+
+function badge(setID: string, version: string, title: string) {
+  return {
+    setID,
+    version,
+    title,
+    image1x: `https://example.com/${setID}/${version}/1`,
+    image2x: `https://example.com/${setID}/${version}/2`,
+    image4x: `https://example.com/${setID}/${version}/3`,
+  };
+}
+
+function mockHtml() {
+  ((globalThis as any).fetch as any).mockResolvedValueOnce({
+    ok: true,
+    text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+  });
+}
+
+function mockBadges(data: unknown) {
+  ((globalThis as any).fetch as any).mockResolvedValueOnce({
+    ok: true,
+    json: () => Promise.resolve({ data }),
+  });
+}
+
+describe("fetchChannelBadges", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe("Normal cases", () => {
+    it("should return global badges replaced by the channel ones", async () => {
+      mockHtml();
+      mockBadges({
+        badges: [
+          badge("moderator", "1", "Moderator"),
+          badge("subscriber", "0", "Subscriber"),
+          null,
+        ],
+        user: {
+          id: "1",
+          broadcastBadges: [
+            badge("subscriber", "0", "Channel Subscriber"),
+            badge("subscriber", "12", "1-Year Channel Subscriber"),
+          ],
+        },
+      });
+
+      const badges = await fetchChannelBadges(
+        "https://www.twitch.tv/Some_Channel",
+      );
+
+      expect(badges).toEqual([
+        {
+          setId: "moderator",
+          version: "1",
+          title: "Moderator",
+          images: {
+            small: "https://example.com/moderator/1/1",
+            medium: "https://example.com/moderator/1/2",
+            large: "https://example.com/moderator/1/3",
+          },
+        },
+        expect.objectContaining({
+          setId: "subscriber",
+          version: "0",
+          title: "Channel Subscriber",
+        }),
+        expect.objectContaining({
+          setId: "subscriber",
+          version: "12",
+          title: "1-Year Channel Subscriber",
+        }),
+      ]);
+
+      const [pageUrl] = ((globalThis as any).fetch as any).mock.calls[0];
+      expect(pageUrl).toBe("https://www.twitch.tv/some_channel");
+      const [, init] = ((globalThis as any).fetch as any).mock.calls[1];
+      expect(JSON.parse(init.body)).toMatchObject({
+        operationName: "ChannelBadges",
+        variables: { login: "some_channel" },
+      });
+    });
+  });
+
+  describe("Error cases", () => {
+    it("should throw ChannelNotFoundError when the channel does not exist", async () => {
+      mockHtml();
+      mockBadges({ badges: [], user: null });
+
+      const error = await fetchChannelBadges("missing_channel").catch((e) => e);
+
+      expect(error).toBeInstanceOf(ChannelNotFoundError);
+      expect(error.channel).toBe("missing_channel");
+    });
+
+    it("should throw InvalidInputError without requesting on an invalid channel", async () => {
+      await expect(fetchChannelBadges("not a channel")).rejects.toThrow(
+        InvalidInputError,
+      );
+      expect((globalThis as any).fetch).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { fetchClipMessages } from "../src/client";
+import {
+  ClipNotFoundError,
+  ClipSourceUnavailableError,
+  InvalidInputError,
+} from "../src/errors";
+
+// Mock globalThis.fetch
+(globalThis as any).fetch = vi.fn();
+
+const clip = {
+  id: "clip1",
+  slug: "FunnyClipSlug",
+  durationSeconds: 30,
+  videoOffsetSeconds: 100,
+  video: { id: "12345" },
+};
+
+function mockHtml() {
+  ((globalThis as any).fetch as any).mockResolvedValueOnce({
+    ok: true,
+    text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+  });
+}
+
+function mockClip(value: unknown) {
+  ((globalThis as any).fetch as any).mockResolvedValueOnce({
+    ok: true,
+    json: () => Promise.resolve({ data: { clip: value } }),
+  });
+}
+
+describe("fetchClipMessages", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe("Normal cases", () => {
+    it("should fetch the messages of the clip window of its source video", async () => {
+      mockHtml();
+      mockClip(clip);
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            {
+              data: {
+                video: {
+                  comments: {
+                    edges: [100, 129, 130].map((offset) => ({
+                      cursor: `cursor-${offset}`,
+                      node: {
+                        id: `comment-${offset}`,
+                        commenter: null,
+                        contentOffsetSeconds: offset,
+                        createdAt: "2024-01-01T00:00:00Z",
+                        message: {
+                          fragments: [{ text: "Message", emote: null }],
+                          userBadges: [],
+                          userColor: null,
+                        },
+                      },
+                    })),
+                    pageInfo: { hasNextPage: true, hasPreviousPage: true },
+                  },
+                },
+              },
+            },
+          ]),
+      });
+
+      const messages = await fetchClipMessages(
+        "https://www.twitch.tv/channel/clip/FunnyClipSlug?filter=clips",
+      );
+
+      expect(messages.map((message) => message.id)).toEqual([
+        "comment-100",
+        "comment-129",
+      ]);
+      const calls = ((globalThis as any).fetch as any).mock.calls;
+      expect(calls).toHaveLength(3);
+      expect(calls[0][0]).toBe("https://clips.twitch.tv/FunnyClipSlug");
+      expect(JSON.parse(calls[1][1].body).variables).toEqual({
+        slug: "FunnyClipSlug",
+      });
+      expect(JSON.parse(calls[2][1].body)[0].variables).toEqual({
+        videoID: "12345",
+        contentOffsetSeconds: 100,
+      });
+    });
+  });
+
+  describe("Error cases", () => {
+    it("should throw ClipNotFoundError when the clip does not exist", async () => {
+      mockHtml();
+      mockClip(null);
+
+      const error = await fetchClipMessages("FunnyClipSlug").catch((e) => e);
+
+      expect(error).toBeInstanceOf(ClipNotFoundError);
+      expect(error.slug).toBe("FunnyClipSlug");
+    });
+
+    it("should throw ClipSourceUnavailableError when the source video was deleted", async () => {
+      mockHtml();
+      mockClip({ ...clip, video: null, videoOffsetSeconds: null });
+
+      await expect(fetchClipMessages("FunnyClipSlug")).rejects.toThrow(
+        ClipSourceUnavailableError,
+      );
+    });
+
+    it("should throw InvalidInputError without requesting on an invalid URL", async () => {
+      await expect(
+        fetchClipMessages("https://www.twitch.tv/videos/12345"),
+      ).rejects.toThrow(InvalidInputError);
+      expect((globalThis as any).fetch).not.toHaveBeenCalled();
+    });
+  });
+});
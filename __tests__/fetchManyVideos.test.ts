@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  fetchManyVideos,
+  type FetchManyVideosEvent,
+  type FetchManyVideosProgress,
+  type FetchManyVideosSkippedEdge,
+} from "../src/client";
+import { VideoNotFoundError } from "../src/errors";
+
+// Mock globalThis.fetch
+(globalThis as any).fetch = vi.fn();
+
+const emptyComments = {
+  data: {
+    video: {
+      comments: {
+        edges: [],
+        pageInfo: { hasNextPage: false, hasPreviousPage: false },
+      },
+    },
+  },
+};
+
+function metadata(id: string, lengthSeconds: number) {
+  return {
+    data: {
+      video: {
+        id,
+        title: null,
+        lengthSeconds,
+        createdAt: "2024-01-01T00:00:00Z",
+        publishedAt: null,
+        viewCount: 0,
+        owner: null,
+        game: null,
+      },
+    },
+  };
+}
+
+describe("fetchManyVideos", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe("Normal cases", () => {
+    it("should settle each video on its own and report progress", async () => {
+      // 1st video: HTML, metadata and a single page
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(metadata("111", 100)),
+      });
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([emptyComments]),
+      });
+      // 2nd video: deleted, the Client ID is reused
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ data: { video: null } }),
+      });
+
+      const progress: FetchManyVideosProgress[] = [];
+      const results = await fetchManyVideos(["111", "222"], {
+        concurrency: 1,
+        videoConcurrency: 1,
+        onProgress: (p) => progress.push(p),
+      });
+
+      expect(results[0]).toMatchObject({
+        video: "111",
+        status: "fulfilled",
+        value: { messages: [], report: { endSeconds: 100 } },
+      });
+      expect(results[1]).toMatchObject({ video: "222", status: "rejected" });
+      expect(
+        results[1]?.status === "rejected" && results[1].reason,
+      ).toBeInstanceOf(VideoNotFoundError);
+
+      expect(progress.at(-1)).toMatchObject({
+        video: "222",
+        settledVideos: 2,
+        totalVideos: 2,
+        percentage: 100,
+      });
+      expect(
+        progress.find((p) => p.video === "111" && p.settledVideos === 1),
+      ).toMatchObject({ percentage: 50 });
+    });
+
+    it("should share the request budget across videos", async () => {
+      let active = 0;
+      let maxActive = 0;
+      const transportFetch = vi.fn(
+        async (input: string | URL | Request, init?: RequestInit) => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await new Promise((resolve) => setTimeout(resolve, 0));
+          active--;
+
+          if (String(input).includes("/videos/")) {
+            return new Response('<html>clientId="test-client-id"</html>');
+          }
+          const body = JSON.parse(String(init?.body));
+          return Response.json(
+            Array.isArray(body) ? [emptyComments] : metadata("1", 400),
+          );
+        },
+      );
+
+      const results = await fetchManyVideos(["111", "222", "333"], {
+        concurrency: 2,
+        videoConcurrency: 3,
+        chunkCount: 4,
+        transport: { fetch: transportFetch },
+      });
+
+      expect(results.map((result) => result.status)).toEqual([
+        "fulfilled",
+        "fulfilled",
+        "fulfilled",
+      ]);
+      expect(maxActive).toBe(2);
+    });
+
+    it("should tag the events and skipped edges of each video", async () => {
+      const invalidEdge = {
+        cursor: "cursor-invalid",
+        node: { id: "invalid", contentOffsetSeconds: 10 },
+      };
+      const transportFetch = vi.fn(
+        async (input: string | URL | Request, init?: RequestInit) => {
+          if (String(input).includes("/videos/")) {
+            return new Response('<html>clientId="test-client-id"</html>');
+          }
+          const body = JSON.parse(String(init?.body));
+          if (!Array.isArray(body)) {
+            return Response.json(metadata(body.variables.videoID, 100));
+          }
+          // Only the 2nd video has an invalid edge
+          const edges =
+            body[0].variables.videoID === "222" ? [invalidEdge] : [];
+          return Response.json([
+            {
+              data: {
+                video: {
+                  comments: {
+                    edges,
+                    pageInfo: { hasNextPage: false, hasPreviousPage: false },
+                  },
+                },
+              },
+            },
+          ]);
+        },
+      );
+
+      const events: FetchManyVideosEvent[] = [];
+      const skipped: FetchManyVideosSkippedEdge[] = [];
+      await fetchManyVideos(["111", "222"], {
+        chunkCount: 1,
+        videoConcurrency: 2,
+        parseMode: "lenient",
+        transport: { fetch: transportFetch },
+        onEvent: (event) => events.push(event),
+        onSkippedEdge: (edge) => skipped.push(edge),
+      });
+
+      for (const video of ["111", "222"]) {
+        expect(events).toContainEqual({
+          type: "phase",
+          phase: "fetch",
+          video,
+        });
+        expect(events).toContainEqual(
+          expect.objectContaining({ type: "page", video }),
+        );
+      }
+      expect(skipped).toHaveLength(1);
+      expect(skipped[0]).toMatchObject({ video: "222", edge: invalidEdge });
+    });
+  });
+});
@@ -1,13 +1,23 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { fetchMessages } from "../src/client";
-import { HttpError, ResponseParseError } from "../src/errors";
+import { MemoryResponseCache } from "../src/cache";
+import {
+  AbortError,
+  CommentsUnavailableError,
+  GraphQLError,
+  HttpError,
+  InvalidInputError,
+  ResponseParseError,
+  VideoNotFoundError,
+  VideoRestrictedError,
+} from "../src/errors";
 
 // Mock globalThis.fetch
 (globalThis as any).fetch = vi.fn();
 
 describe("fetchMessages", () => {
   beforeEach(() => {
-    vi.clearAllMocks();
+    vi.resetAllMocks();
   });
 
   describe("Normal cases", () => {
@@ -113,6 +123,64 @@ describe("fetchMessages", () => {
       expect(result.nodes[0]?.contentOffsetSeconds).toBe(60);
     });
 
+    it("should fetch messages from cursor and return next cursor", async () => {
+      // 1st call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      // 2nd call: GraphQL response
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            {
+              data: {
+                video: {
+                  comments: {
+                    edges: [
+                      {
+                        cursor: "cursor3",
+                        node: {
+                          id: "comment3",
+                          commenter: null,
+                          contentOffsetSeconds: 90,
+                          createdAt: "2024-01-01T00:00:00Z",
+                          message: {
+                            fragments: [{ text: "Message 3", emote: null }],
+                            userBadges: [],
+                            userColor: null,
+                          },
+                        },
+                      },
+                    ],
+                    pageInfo: {
+                      hasNextPage: true,
+                      hasPreviousPage: true,
+                    },
+                  },
+                },
+              },
+            },
+          ]),
+      });
+
+      const result = await fetchMessages("12345", { cursor: "cursor2" });
+
+      const body = JSON.parse(
+        ((globalThis as any).fetch as any).mock.calls[1][1].body,
+      );
+      expect(body[0].variables).toEqual({
+        videoID: "12345",
+        cursor: "cursor2",
+      });
+      expect(result.nodes).toHaveLength(1);
+      expect(result.nextCursor).toBe("cursor3");
+      expect(result.hasNextPage).toBe(true);
+      expect(result.hasPreviousPage).toBe(true);
+    });
+
     it("should return empty array when no comments found", async () => {
       // 1st call: HTML for retrieveClientId
       ((globalThis as any).fetch as any).mockResolvedValueOnce({
@@ -120,7 +188,7 @@ describe("fetchMessages", () => {
         text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
       });
 
-      // 2nd call: GraphQL response (null comments)
+      // 2nd call: GraphQL response (no comments)
       ((globalThis as any).fetch as any).mockResolvedValueOnce({
         ok: true,
         json: () =>
@@ -128,7 +196,13 @@ describe("fetchMessages", () => {
             {
               data: {
                 video: {
-                  comments: null,
+                  comments: {
+                    edges: [],
+                    pageInfo: {
+                      hasNextPage: false,
+                      hasPreviousPage: false,
+                    },
+                  },
                 },
               },
             },
@@ -138,11 +212,108 @@ describe("fetchMessages", () => {
       const result = await fetchMessages("12345");
 
       expect(result.nodes).toHaveLength(0);
+      expect(result.nextCursor).toBeNull();
+      expect(result.hasNextPage).toBe(false);
     });
   });
 
-  describe("Error cases", () => {
-    it("should throw HTTP error when fetch fails", async () => {
+  describe("Transport", () => {
+    it("should send every request through the custom transport", async () => {
+      const customFetch = vi.fn();
+
+      // 1st call: HTML for retrieveClientId
+      customFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      // 2nd call: GraphQL response
+      customFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            {
+              data: {
+                video: {
+                  comments: {
+                    edges: [],
+                    pageInfo: {
+                      hasNextPage: false,
+                      hasPreviousPage: false,
+                    },
+                  },
+                },
+              },
+            },
+          ]),
+      });
+
+      await fetchMessages("12345", {
+        transport: {
+          fetch: customFetch,
+          gqlUrl: "http://localhost:8080/gql",
+          videoPageUrl: "http://localhost:8080/videos/",
+        },
+      });
+
+      expect(customFetch.mock.calls[0]![0]).toBe(
+        "http://localhost:8080/videos/12345",
+      );
+      expect(customFetch.mock.calls[1]![0]).toBe("http://localhost:8080/gql");
+      expect((globalThis as any).fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Retry", () => {
+    it("should retry rate-limited and failed network requests", async () => {
+      // 1st call: HTML for retrieveClientId fails with a network error
+      ((globalThis as any).fetch as any).mockRejectedValueOnce(
+        new TypeError("fetch failed"),
+      );
+
+      // 2nd call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      // 3rd call: GraphQL response - rate limited
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        headers: new Headers({ "retry-after": "0" }),
+      });
+
+      // 4th call: GraphQL response
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            {
+              data: {
+                video: {
+                  comments: {
+                    edges: [],
+                    pageInfo: {
+                      hasNextPage: false,
+                      hasPreviousPage: false,
+                    },
+                  },
+                },
+              },
+            },
+          ]),
+      });
+
+      const result = await fetchMessages("12345", {
+        retry: { baseDelayMs: 0 },
+      });
+
+      expect(result.nodes).toHaveLength(0);
+      expect((globalThis as any).fetch).toHaveBeenCalledTimes(4);
+    });
+
+    it("should not retry non-retryable status codes", async () => {
       // 1st call: HTML for retrieveClientId
       ((globalThis as any).fetch as any).mockResolvedValueOnce({
         ok: true,
@@ -151,11 +322,515 @@ describe("fetchMessages", () => {
 
       // 2nd call: GraphQL response - HTTP error
       ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        headers: new Headers({ "x-request-id": "abc" }),
+      });
+
+      const error = await fetchMessages("12345", {
+        retry: { baseDelayMs: 0 },
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.attempts).toBe(1);
+      expect(error.headers.get("x-request-id")).toBe("abc");
+      expect((globalThis as any).fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("Hooks", () => {
+    it("should call the hooks around each request and retry", async () => {
+      // 1st call: HTML for retrieveClientId fails with a network error
+      const networkError = new TypeError("fetch failed");
+      ((globalThis as any).fetch as any).mockRejectedValueOnce(networkError);
+
+      // 2nd call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      // 3rd call: GraphQL response, without content-length header
+      const body = JSON.stringify([
+        {
+          data: {
+            video: {
+              comments: {
+                edges: [],
+                pageInfo: { hasNextPage: false, hasPreviousPage: false },
+              },
+            },
+          },
+        },
+      ]);
+      ((globalThis as any).fetch as any).mockResolvedValueOnce(
+        new Response(body, { status: 200 }),
+      );
+
+      const onRequest = vi.fn();
+      const onResponse = vi.fn();
+      const onError = vi.fn();
+
+      await fetchMessages("12345", {
+        contentOffsetSeconds: 30,
+        retry: { baseDelayMs: 0 },
+        hooks: { onRequest, onResponse, onError },
+      });
+
+      expect(onRequest.mock.calls.map(([request]) => request)).toEqual([
+        expect.objectContaining({
+          operation: "ClientId",
+          offsets: [],
+          attempt: 1,
+        }),
+        expect.objectContaining({
+          operation: "ClientId",
+          offsets: [],
+          attempt: 2,
+        }),
+        {
+          operation: "VideoCommentsByOffsetOrCursor",
+          offsets: [30],
+          url: "https://gql.twitch.tv/gql",
+          attempt: 1,
+        },
+      ]);
+      expect(onError).toHaveBeenCalledOnce();
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          operation: "ClientId",
+          attempt: 1,
+          error: networkError,
+        }),
+      );
+      expect(onResponse).toHaveBeenCalledTimes(2);
+      expect(onResponse).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          operation: "VideoCommentsByOffsetOrCursor",
+          status: 200,
+          bytes: body.length,
+          latencyMs: expect.any(Number),
+        }),
+      );
+    });
+  });
+
+  describe("Parse mode", () => {
+    const createEdge = (id: string) => ({
+      cursor: `cursor-${id}`,
+      node: {
+        id,
+        commenter: null,
+        contentOffsetSeconds: 10,
+        createdAt: "2024-01-01T00:00:00Z",
+        message: {
+          fragments: [{ text: id, emote: null }],
+          userBadges: [],
+          userColor: null,
+        },
+      },
+    });
+    // Badge without version
+    const invalidEdge = {
+      ...createEdge("invalid"),
+      node: {
+        ...createEdge("invalid").node,
+        message: {
+          fragments: [],
+          userBadges: [{ id: "badge", setID: "subscriber" }],
+          userColor: null,
+        },
+      },
+    };
+
+    function mockPage(edges: unknown[]) {
+      // 1st call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            {
+              data: {
+                video: {
+                  comments: {
+                    edges,
+                    pageInfo: { hasNextPage: true, hasPreviousPage: false },
+                  },
+                },
+              },
+            },
+          ]),
+      });
+    }
+
+    it("should fail the whole page on an invalid edge in strict mode", async () => {
+      mockPage([createEdge("a"), invalidEdge]);
+
+      await expect(fetchMessages("12345")).rejects.toThrow(ResponseParseError);
+    });
+
+    it("should skip and report invalid edges in lenient mode", async () => {
+      mockPage([createEdge("a"), invalidEdge, createEdge("b")]);
+
+      const result = await fetchMessages("12345", { parseMode: "lenient" });
+
+      expect(result.nodes.map((node) => node.id)).toEqual(["a", "b"]);
+      expect(result.nextCursor).toBe("cursor-b");
+      expect(result.skippedEdges).toHaveLength(1);
+      expect(result.skippedEdges[0]!.edge).toEqual(invalidEdge);
+      expect(result.skippedEdges[0]!.issues[0]!.path).toEqual([
+        "node",
+        "message",
+        "userBadges",
+        0,
+        "version",
+      ]);
+    });
+
+    it("should follow the cursor of a skipped last edge", async () => {
+      mockPage([createEdge("a"), invalidEdge]);
+
+      const result = await fetchMessages("12345", { parseMode: "lenient" });
+
+      expect(result.nodes).toHaveLength(1);
+      expect(result.nextCursor).toBe("cursor-invalid");
+    });
+  });
+
+  describe("Video URL", () => {
+    const emptyComments = {
+      ok: true,
+      json: () =>
+        Promise.resolve([
+          {
+            data: {
+              video: {
+                comments: {
+                  edges: [],
+                  pageInfo: { hasNextPage: false, hasPreviousPage: false },
+                },
+              },
+            },
+          },
+        ]),
+    };
+
+    it("should fetch from the video ID and offset of the URL", async () => {
+      // 1st call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+      ((globalThis as any).fetch as any).mockResolvedValueOnce(emptyComments);
+
+      await fetchMessages("https://www.twitch.tv/videos/12345?t=1h2m3s");
+
+      const body = JSON.parse(
+        ((globalThis as any).fetch as any).mock.calls[1][1].body,
+      );
+      expect(body[0].variables).toEqual({
+        videoID: "12345",
+        contentOffsetSeconds: 3723,
+      });
+    });
+
+    it("should prefer contentOffsetSeconds over the offset of the URL", async () => {
+      // 1st call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+      ((globalThis as any).fetch as any).mockResolvedValueOnce(emptyComments);
+
+      await fetchMessages("twitch.tv/videos/12345?t=1h2m3s", {
+        contentOffsetSeconds: "01:00",
+      });
+
+      const body = JSON.parse(
+        ((globalThis as any).fetch as any).mock.calls[1][1].body,
+      );
+      expect(body[0].variables.contentOffsetSeconds).toBe(60);
+    });
+  });
+
+  describe("Cache", () => {
+    const comments = {
+      ok: true,
+      json: () =>
+        Promise.resolve([
+          {
+            data: {
+              video: {
+                comments: {
+                  edges: [],
+                  pageInfo: { hasNextPage: false, hasPreviousPage: false },
+                },
+              },
+            },
+          },
+        ]),
+    };
+
+    function mockRequests() {
+      // 1st call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+      ((globalThis as any).fetch as any).mockResolvedValueOnce(comments);
+    }
+
+    it("should read the page and Client ID from the cache", async () => {
+      mockRequests();
+      const cache = { store: new MemoryResponseCache() };
+
+      await fetchMessages("12345", { contentOffsetSeconds: 30, cache });
+      await fetchMessages("12345", { contentOffsetSeconds: 30, cache });
+
+      expect((globalThis as any).fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should request expired pages again", async () => {
+      mockRequests();
+      mockRequests();
+      const now = vi.spyOn(Date, "now").mockReturnValue(0);
+      const cache = { store: new MemoryResponseCache(), ttlSeconds: 60 };
+
+      await fetchMessages("12345", { cache });
+      now.mockReturnValue(60_000);
+      await fetchMessages("12345", { cache });
+      now.mockReturnValue(61_000);
+      await fetchMessages("12345", { cache });
+
+      expect((globalThis as any).fetch).toHaveBeenCalledTimes(4);
+      now.mockRestore();
+    });
+
+    it("should request again and store in refresh mode", async () => {
+      const store = new MemoryResponseCache();
+      mockRequests();
+      mockRequests();
+
+      await fetchMessages("12345", { cache: { store } });
+      await fetchMessages("12345", { cache: { store, mode: "refresh" } });
+      await fetchMessages("12345", { cache: { store } });
+
+      expect((globalThis as any).fetch).toHaveBeenCalledTimes(4);
+    });
+
+    it("should neither read nor store in bypass mode", async () => {
+      const store = new MemoryResponseCache();
+      mockRequests();
+      mockRequests();
+
+      await fetchMessages("12345", { cache: { store, mode: "bypass" } });
+      await fetchMessages("12345", { cache: { store } });
+
+      expect((globalThis as any).fetch).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe("Persisted query", () => {
+    const notFound = {
+      ok: true,
+      json: () =>
+        Promise.resolve([
+          {
+            errors: [{ message: "PersistedQueryNotFound", path: ["video"] }],
+          },
+        ]),
+    };
+    const emptyComments = {
+      ok: true,
+      json: () =>
+        Promise.resolve([
+          {
+            data: {
+              video: {
+                comments: {
+                  edges: [],
+                  pageInfo: { hasNextPage: false, hasPreviousPage: false },
+                },
+              },
+            },
+          },
+        ]),
+    };
+
+    it("should throw GraphQLError with the reported errors", async () => {
+      // 1st call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+      ((globalThis as any).fetch as any).mockResolvedValueOnce(notFound);
+
+      const error = await fetchMessages("12345").catch((e) => e);
+
+      expect(error).toBeInstanceOf(GraphQLError);
+      expect(error.errors).toEqual([
+        { message: "PersistedQueryNotFound", path: ["video"] },
+      ]);
+    });
+
+    it("should send the overridden hash", async () => {
+      // 1st call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+      ((globalThis as any).fetch as any).mockResolvedValueOnce(emptyComments);
+
+      await fetchMessages("12345", {
+        persistedQuery: { sha256Hash: "custom-hash" },
+      });
+
+      const body = JSON.parse(
+        ((globalThis as any).fetch as any).mock.calls[1][1].body,
+      );
+      expect(body[0].extensions.persistedQuery.sha256Hash).toBe("custom-hash");
+    });
+
+    it("should send the full query when the persisted query is not found", async () => {
+      // 1st call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+      ((globalThis as any).fetch as any).mockResolvedValueOnce(notFound);
+      ((globalThis as any).fetch as any).mockResolvedValueOnce(emptyComments);
+
+      const result = await fetchMessages("12345", {
+        persistedQuery: { fallbackToQuery: true },
+      });
+
+      expect(result.nodes).toHaveLength(0);
+      const body = JSON.parse(
+        ((globalThis as any).fetch as any).mock.calls[2][1].body,
+      );
+      expect(body[0].extensions).toBeUndefined();
+      expect(body[0].query).toContain("query VideoCommentsByOffsetOrCursor");
+    });
+  });
+
+  describe("Error cases", () => {
+    it("should throw HTTP error when fetch fails", async () => {
+      // 1st call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      // 2nd call onwards: GraphQL response - HTTP error on every attempt
+      ((globalThis as any).fetch as any).mockResolvedValue({
         ok: false,
         status: 500,
+        headers: new Headers(),
+      });
+
+      const error = await fetchMessages("12345", {
+        retry: { baseDelayMs: 0 },
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.statusCode).toBe(500);
+      expect(error.attempts).toBe(3);
+      expect((globalThis as any).fetch).toHaveBeenCalledTimes(4);
+    });
+
+    it("should throw VideoNotFoundError when the video does not exist", async () => {
+      // 1st call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
       });
 
-      await expect(fetchMessages("12345")).rejects.toThrow(HttpError);
+      // 2nd call: GraphQL response (null video)
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([{ data: { video: null } }]),
+      });
+
+      const error = await fetchMessages("12345").catch((e) => e);
+
+      expect(error).toBeInstanceOf(VideoNotFoundError);
+      expect(error.videoId).toBe("12345");
+    });
+
+    it("should throw VideoRestrictedError when access to the comments is denied", async () => {
+      // 1st call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      // 2nd call: GraphQL response (null comments with errors)
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            {
+              data: { video: { comments: null } },
+              errors: [{ message: "forbidden", path: ["video", "comments"] }],
+            },
+          ]),
+      });
+
+      const error = await fetchMessages("12345").catch((e) => e);
+
+      expect(error).toBeInstanceOf(VideoRestrictedError);
+      expect(error.errors).toEqual([
+        { message: "forbidden", path: ["video", "comments"] },
+      ]);
+    });
+
+    it("should throw VideoRestrictedError when access to the video is denied", async () => {
+      // 1st call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      // 2nd call: GraphQL response (null video with errors)
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            {
+              data: { video: null },
+              errors: [{ message: "forbidden", path: ["video"] }],
+            },
+          ]),
+      });
+
+      const error = await fetchMessages("12345").catch((e) => e);
+
+      expect(error).toBeInstanceOf(VideoRestrictedError);
+      expect(error.videoId).toBe("12345");
+      expect(error.errors).toEqual([{ message: "forbidden", path: ["video"] }]);
+    });
+
+    it("should throw CommentsUnavailableError when the comments are null", async () => {
+      // 1st call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      // 2nd call: GraphQL response (null comments)
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([{ data: { video: { comments: null } } }]),
+      });
+
+      await expect(fetchMessages("12345")).rejects.toThrow(
+        CommentsUnavailableError,
+      );
     });
 
     it("should throw ResponseParseError on invalid GraphQL response", async () => {
@@ -173,5 +848,22 @@ describe("fetchMessages", () => {
 
       await expect(fetchMessages("12345")).rejects.toThrow(ResponseParseError);
     });
+
+    it("should throw InvalidInputError without requesting on an invalid URL", async () => {
+      await expect(
+        fetchMessages("https://www.twitch.tv/someone/clip/abc"),
+      ).rejects.toThrow(InvalidInputError);
+      expect((globalThis as any).fetch).not.toHaveBeenCalled();
+    });
+
+    it("should throw AbortError without requesting when already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        fetchMessages("12345", { signal: controller.signal }),
+      ).rejects.toThrow(AbortError);
+      expect((globalThis as any).fetch).not.toHaveBeenCalled();
+    });
   });
 });
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { fetchVideoMetadata } from "../src/client";
+import {
+  ResponseParseError,
+  VideoNotFoundError,
+  VideoRestrictedError,
+} from "../src/errors";
+
+// Mock globalThis.fetch
+(globalThis as any).fetch = vi.fn();
+
+const video = {
+  id: "12345",
+  title: "Test Stream",
+  lengthSeconds: 7200,
+  createdAt: "2024-01-01T00:00:00Z",
+  publishedAt: "2024-01-01T00:00:00Z",
+  viewCount: 100,
+  owner: {
+    id: "user1",
+    login: "testuser1",
+    displayName: "Test User 1",
+  },
+  game: {
+    id: "game1",
+    name: "Just Chatting",
+    displayName: "Just Chatting",
+  },
+};
+
+describe("fetchVideoMetadata", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe("Normal cases", () => {
+    it("should fetch video metadata", async () => {
+      // 1st call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      // 2nd call: GraphQL response
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ data: { video } }),
+      });
+
+      const metadata = await fetchVideoMetadata("12345");
+
+      expect(metadata).toEqual(video);
+      const body = JSON.parse(
+        ((globalThis as any).fetch as any).mock.calls[1][1].body,
+      );
+      expect(body.operationName).toBe("VideoMetadata");
+      expect(body.variables).toEqual({ videoID: "12345" });
+    });
+  });
+
+  describe("Error cases", () => {
+    it("should throw VideoNotFoundError when the video does not exist", async () => {
+      // 1st call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      // 2nd call: GraphQL response
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ data: { video: null } }),
+      });
+
+      await expect(fetchVideoMetadata("12345")).rejects.toThrow(
+        VideoNotFoundError,
+      );
+    });
+
+    it("should throw VideoRestrictedError when access to the video is denied", async () => {
+      // 1st call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      // 2nd call: GraphQL response (null video with errors)
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            data: { video: null },
+            errors: [{ message: "forbidden", path: ["video"] }],
+          }),
+      });
+
+      const error = await fetchVideoMetadata("12345").catch((e) => e);
+
+      expect(error).toBeInstanceOf(VideoRestrictedError);
+      expect(error.errors).toEqual([{ message: "forbidden", path: ["video"] }]);
+    });
+
+    it("should throw ResponseParseError on invalid GraphQL response", async () => {
+      // 1st call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      // 2nd call: GraphQL response - invalid JSON
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ invalid: "response" }),
+      });
+
+      await expect(fetchVideoMetadata("12345")).rejects.toThrow(
+        ResponseParseError,
+      );
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { followMessages } from "../src/client";
+import { AbortError } from "../src/errors";
+
+// Mock globalThis.fetch
+(globalThis as any).fetch = vi.fn();
+
+function mockHtml() {
+  ((globalThis as any).fetch as any).mockResolvedValueOnce({
+    ok: true,
+    text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+  });
+}
+
+function mockLength(lengthSeconds: number) {
+  ((globalThis as any).fetch as any).mockResolvedValueOnce({
+    ok: true,
+    json: () =>
+      Promise.resolve({
+        data: {
+          video: {
+            id: "12345",
+            title: null,
+            lengthSeconds,
+            createdAt: "2024-01-01T00:00:00Z",
+            publishedAt: null,
+            viewCount: 0,
+            owner: null,
+            game: null,
+          },
+        },
+      }),
+  });
+}
+
+function mockPage(edges: Array<{ id: string; offset: number }>) {
+  ((globalThis as any).fetch as any).mockResolvedValueOnce({
+    ok: true,
+    json: () =>
+      Promise.resolve([
+        {
+          data: {
+            video: {
+              comments: {
+                edges: edges.map(({ id, offset }) => ({
+                  cursor: `cursor-${id}`,
+                  node: {
+                    id,
+                    commenter: null,
+                    contentOffsetSeconds: offset,
+                    createdAt: "2024-01-01T00:00:00Z",
+                    message: {
+                      fragments: [{ text: id, emote: null }],
+                      userBadges: [],
+                      userColor: null,
+                    },
+                  },
+                })),
+                pageInfo: { hasNextPage: false, hasPreviousPage: false },
+              },
+            },
+          },
+        },
+      ]),
+  });
+}
+
+describe("followMessages", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe("Normal cases", () => {
+    it("should yield the history, then new messages until the video stops growing", async () => {
+      mockHtml();
+      mockLength(100);
+      // History up to the current length
+      mockPage([{ id: "a", offset: 10 }]);
+      // 1st poll from the end of the history
+      mockPage([{ id: "b", offset: 100 }]);
+      // The video grew, so the cursor is followed again
+      mockLength(160);
+      mockPage([
+        { id: "b", offset: 100 },
+        { id: "c", offset: 150 },
+      ]);
+      // The video stopped growing
+      mockLength(160);
+
+      const ids: string[] = [];
+      for await (const node of followMessages("12345", {
+        concurrency: 1,
+        pollIntervalMs: 0,
+      })) {
+        ids.push(node.id);
+      }
+
+      expect(ids).toEqual(["a", "b", "c"]);
+      const calls = ((globalThis as any).fetch as any).mock.calls;
+      expect(calls).toHaveLength(7);
+      expect(JSON.parse(calls[3][1].body)[0].variables).toEqual({
+        videoID: "12345",
+        contentOffsetSeconds: 100,
+      });
+      expect(JSON.parse(calls[5][1].body)[0].variables).toEqual({
+        videoID: "12345",
+        cursor: "cursor-b",
+      });
+    });
+  });
+
+  describe("History handoff", () => {
+    it("should not yield history messages again when the 1st poll starts before its offset", async () => {
+      mockHtml();
+      mockLength(100);
+      // History up to the current length
+      mockPage([
+        { id: "a", offset: 10 },
+        { id: "b", offset: 99 },
+      ]);
+      // 1st poll from the end of the history starts slightly before it
+      mockPage([
+        { id: "b", offset: 99 },
+        { id: "c", offset: 100 },
+      ]);
+      // The video stopped growing
+      mockLength(100);
+
+      const ids: string[] = [];
+      for await (const node of followMessages("12345", {
+        concurrency: 1,
+        pollIntervalMs: 0,
+      })) {
+        ids.push(node.id);
+      }
+
+      expect(ids).toEqual(["a", "b", "c"]);
+    });
+  });
+
+  describe("Error cases", () => {
+    it("should reject with AbortError when aborted while waiting", async () => {
+      mockHtml();
+      mockLength(100);
+      mockPage([{ id: "a", offset: 10 }]);
+      mockPage([{ id: "b", offset: 100 }]);
+
+      const controller = new AbortController();
+      const ids: string[] = [];
+      await expect(
+        (async () => {
+          for await (const node of followMessages("12345", {
+            concurrency: 1,
+            pollIntervalMs: 60000,
+            signal: controller.signal,
+          })) {
+            ids.push(node.id);
+            if (node.id === "b") {
+              controller.abort();
+            }
+          }
+        })(),
+      ).rejects.toThrow(AbortError);
+      expect(ids).toEqual(["a", "b"]);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseChannelReference,
+  parseClipReference,
+  parseOffset,
+  parseVideoReference,
+} from "../src/reference";
+import { InvalidInputError } from "../src/errors";
+
+describe("parseVideoReference", () => {
+  describe("Normal cases", () => {
+    it("should accept a plain video ID", () => {
+      expect(parseVideoReference("123456789")).toEqual({
+        videoId: "123456789",
+      });
+      expect(parseVideoReference("v123456789")).toEqual({
+        videoId: "123456789",
+      });
+    });
+
+    it("should accept video URLs with or without scheme", () => {
+      for (const url of [
+        "https://www.twitch.tv/videos/123456789",
+        "http://twitch.tv/videos/123456789/",
+        "https://m.twitch.tv/videos/123456789",
+        "www.twitch.tv/videos/123456789",
+        "https://player.twitch.tv/?video=v123456789&parent=example.com",
+      ]) {
+        expect(parseVideoReference(url)).toEqual({ videoId: "123456789" });
+      }
+    });
+
+    it("should read the start offset from the t parameter", () => {
+      expect(
+        parseVideoReference(
+          "https://www.twitch.tv/videos/123456789?t=1h23m45s",
+        ),
+      ).toEqual({ videoId: "123456789", startSeconds: 5025 });
+    });
+  });
+
+  describe("Error cases", () => {
+    it("should throw InvalidInputError on other URLs", () => {
+      for (const input of [
+        "",
+        "abc",
+        "https://www.twitch.tv/someone",
+        "https://example.com/videos/123456789",
+        "https://www.twitch.tv/videos/123456789?t=soon",
+        "https://www.twitch.tv/videos/123456789?t=0:99:99",
+      ]) {
+        expect(() => parseVideoReference(input)).toThrow(InvalidInputError);
+      }
+    });
+  });
+});
+
+describe("parseOffset", () => {
+  it("should accept seconds, unit strings and clock strings", () => {
+    expect(parseOffset(90)).toBe(90);
+    expect(parseOffset("5025")).toBe(5025);
+    expect(parseOffset("1h23m45s")).toBe(5025);
+    expect(parseOffset("83m")).toBe(4980);
+    expect(parseOffset("01:23:45")).toBe(5025);
+    expect(parseOffset("23:45")).toBe(1425);
+    expect(parseOffset("83:20")).toBe(5000);
+  });
+
+  it("should throw InvalidInputError on invalid offsets", () => {
+    for (const offset of [
+      -1,
+      Number.NaN,
+      "",
+      "1x",
+      "1:2:3:4",
+      "1:75:99",
+      "00:99:99",
+      "1:60:00",
+      "12:60",
+    ]) {
+      expect(() => parseOffset(offset)).toThrow(InvalidInputError);
+    }
+  });
+});
+
+describe("parseClipReference", () => {
+  it("should accept a clip slug and clip URLs", () => {
+    for (const input of [
+      "FunnyClipSlug-abc_123",
+      "https://clips.twitch.tv/FunnyClipSlug-abc_123",
+      "clips.twitch.tv/embed?clip=FunnyClipSlug-abc_123&parent=example.com",
+      "https://www.twitch.tv/channel/clip/FunnyClipSlug-abc_123?filter=clips",
+      "https://m.twitch.tv/clip/FunnyClipSlug-abc_123",
+    ]) {
+      expect(parseClipReference(input)).toBe("FunnyClipSlug-abc_123");
+    }
+  });
+
+  it("should throw InvalidInputError on other URLs", () => {
+    for (const input of [
+      "",
+      "https://www.twitch.tv/videos/123456789",
+      "https://clips.twitch.tv/embed",
+      "https://example.com/clip/FunnyClipSlug",
+    ]) {
+      expect(() => parseClipReference(input)).toThrow(InvalidInputError);
+    }
+  });
+});
+
+describe("parseChannelReference", () => {
+  it("should accept a channel login and channel URLs", () => {
+    for (const input of [
+      "Some_Channel",
+      "https://www.twitch.tv/some_channel",
+      "twitch.tv/Some_Channel/",
+      "https://m.twitch.tv/some_channel?lang=en",
+    ]) {
+      expect(parseChannelReference(input)).toBe("some_channel");
+    }
+  });
+
+  it("should throw InvalidInputError on other URLs", () => {
+    for (const input of [
+      "",
+      "https://www.twitch.tv/videos/123456789",
+      "https://example.com/some_channel",
+    ]) {
+      expect(() => parseChannelReference(input)).toThrow(InvalidInputError);
+    }
+  });
+});
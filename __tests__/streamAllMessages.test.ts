@@ -0,0 +1,283 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { streamAllMessages, type Node } from "../src/client";
+import { HttpError } from "../src/errors";
+
+// Mock globalThis.fetch
+(globalThis as any).fetch = vi.fn();
+
+function createNode(id: string, contentOffsetSeconds: number) {
+  return {
+    id,
+    commenter: null,
+    contentOffsetSeconds,
+    createdAt: "2024-01-01T00:00:00Z",
+    message: {
+      fragments: [{ text: id, emote: null }],
+      userBadges: [],
+      userColor: null,
+    },
+  };
+}
+
+function createResponse(nodes: ReturnType<typeof createNode>[]) {
+  return {
+    ok: true,
+    json: () =>
+      Promise.resolve([
+        {
+          data: {
+            video: {
+              comments: {
+                edges: nodes.map((node) => ({ cursor: node.id, node })),
+                pageInfo: {
+                  hasNextPage: false,
+                  hasPreviousPage: false,
+                },
+              },
+            },
+          },
+        },
+      ]),
+  };
+}
+
+describe("streamAllMessages", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe("Normal cases", () => {
+    it("should yield messages in order even if later chunks finish first", async () => {
+      // 1st call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      // Chunk fetches (concurrency=2, lengthSeconds=100): the first chunk
+      // resolves after the second one
+      let resolveFirstChunk!: (value: unknown) => void;
+      ((globalThis as any).fetch as any).mockReturnValueOnce(
+        new Promise((resolve) => {
+          resolveFirstChunk = resolve;
+        }),
+      );
+      ((globalThis as any).fetch as any).mockResolvedValueOnce(
+        createResponse([createNode("c", 60), createNode("d", 70)]),
+      );
+
+      const iterator = streamAllMessages("12345", {
+        concurrency: 2,
+        lengthSeconds: 100,
+      })[Symbol.asyncIterator]();
+
+      const first = iterator.next();
+      await vi.waitFor(() => {
+        expect((globalThis as any).fetch).toHaveBeenCalledTimes(3);
+      });
+      resolveFirstChunk(
+        createResponse([createNode("a", 10), createNode("b", 20)]),
+      );
+
+      const messages: Node[] = [(await first).value];
+      for (
+        let result = await iterator.next();
+        !result.done;
+        result = await iterator.next()
+      ) {
+        messages.push(result.value);
+      }
+
+      expect(messages.map((node) => node.id)).toEqual(["a", "b", "c", "d"]);
+    });
+
+    it("should not yield a message twice across a chunk boundary", async () => {
+      // 1st call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      ((globalThis as any).fetch as any).mockResolvedValueOnce(
+        createResponse([createNode("a", 10), createNode("b", 49)]),
+      );
+      ((globalThis as any).fetch as any).mockResolvedValueOnce(
+        createResponse([createNode("b", 49), createNode("c", 60)]),
+      );
+
+      const messages: Node[] = [];
+      for await (const node of streamAllMessages("12345", {
+        concurrency: 2,
+        lengthSeconds: 100,
+      })) {
+        messages.push(node);
+      }
+
+      expect(messages.map((node) => node.id)).toEqual(["a", "b", "c"]);
+    });
+
+    it("should only yield messages inside the time window", async () => {
+      // 1st call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      // No length lookup, chunk fetches (concurrency=2, window 4800-6300)
+      ((globalThis as any).fetch as any).mockResolvedValueOnce(
+        createResponse([createNode("before", 4799), createNode("a", 4800)]),
+      );
+      ((globalThis as any).fetch as any).mockResolvedValueOnce(
+        createResponse([createNode("b", 5600), createNode("after", 6300)]),
+      );
+
+      const ids: string[] = [];
+      for await (const node of streamAllMessages("12345", {
+        concurrency: 2,
+        startSeconds: 4800,
+        endSeconds: 6300,
+      })) {
+        ids.push(node.id);
+      }
+
+      expect(ids).toEqual(["a", "b"]);
+      const calls = ((globalThis as any).fetch as any).mock.calls;
+      expect(calls).toHaveLength(3);
+      expect(JSON.parse(calls[1][1].body)[0].variables).toEqual({
+        videoID: "12345",
+        contentOffsetSeconds: 4800,
+      });
+      expect(JSON.parse(calls[2][1].body)[0].variables).toEqual({
+        videoID: "12345",
+        contentOffsetSeconds: 5550,
+      });
+    });
+  });
+
+  describe("Cancellation", () => {
+    it("should stop fetching when the consumer stops iterating", async () => {
+      // 1st call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      // Every page holds one message one second after the requested position.
+      // The 1st chunk ends at once, while pages of the 2nd chunk are followed by
+      // another page until the end of the video.
+      ((globalThis as any).fetch as any).mockImplementation(
+        (_url: string, init: RequestInit) => {
+          const [{ variables }] = JSON.parse(init.body as string);
+          const offset =
+            (variables.contentOffsetSeconds ?? Number(variables.cursor)) + 1;
+          return Promise.resolve({
+            ok: true,
+            json: () =>
+              Promise.resolve([
+                {
+                  data: {
+                    video: {
+                      comments: {
+                        edges: [
+                          {
+                            cursor: String(offset),
+                            node: createNode(`m${offset}`, offset),
+                          },
+                        ],
+                        pageInfo: {
+                          hasNextPage: offset > 500,
+                          hasPreviousPage: false,
+                        },
+                      },
+                    },
+                  },
+                },
+              ]),
+          });
+        },
+      );
+
+      const iterator = streamAllMessages("12345", {
+        concurrency: 2,
+        lengthSeconds: 1000,
+      })[Symbol.asyncIterator]();
+
+      await iterator.next();
+      await iterator.return?.();
+      const calls = ((globalThis as any).fetch as any).mock.calls.length;
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect((globalThis as any).fetch).toHaveBeenCalledTimes(calls);
+    });
+
+    it("should not start chunks far ahead of the consumer", async () => {
+      // 1st call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      // Chunk fetches (concurrency=1, chunkCount=4, lengthSeconds=400)
+      for (const offset of [0, 100, 200, 300]) {
+        ((globalThis as any).fetch as any).mockResolvedValueOnce(
+          createResponse([createNode(`m${offset}`, offset)]),
+        );
+      }
+
+      const iterator = streamAllMessages("12345", {
+        concurrency: 1,
+        chunkCount: 4,
+        lengthSeconds: 400,
+      })[Symbol.asyncIterator]();
+
+      await iterator.next();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      // The chunk being yielded, and a single chunk ahead of it
+      expect((globalThis as any).fetch).toHaveBeenCalledTimes(3);
+
+      const ids: string[] = [];
+      for (
+        let result = await iterator.next();
+        !result.done;
+        result = await iterator.next()
+      ) {
+        ids.push(result.value.id);
+      }
+
+      expect(ids).toEqual(["m100", "m200", "m300"]);
+      expect((globalThis as any).fetch).toHaveBeenCalledTimes(5);
+    });
+  });
+
+  describe("Error cases", () => {
+    it("should throw HTTP error when a chunk request fails", async () => {
+      // 1st call: HTML for retrieveClientId
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<html>clientId="test-client-id"</html>'),
+      });
+
+      ((globalThis as any).fetch as any).mockResolvedValueOnce(
+        createResponse([createNode("a", 10)]),
+      );
+      ((globalThis as any).fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        headers: new Headers(),
+      });
+
+      const messages: Node[] = [];
+      await expect(async () => {
+        for await (const node of streamAllMessages("12345", {
+          concurrency: 2,
+          lengthSeconds: 100,
+        })) {
+          messages.push(node);
+        }
+      }).rejects.toThrow(HttpError);
+      expect(messages.map((node) => node.id)).toEqual(["a"]);
+    });
+  });
+});
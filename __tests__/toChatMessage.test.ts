@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { toChatMessage } from "../src/message";
+import type { Node } from "../src/client";
+
+const node: Node = {
+  id: "comment1",
+  commenter: {
+    id: "user1",
+    login: "testuser1",
+    displayName: "TestUser1",
+  },
+  contentOffsetSeconds: 42,
+  createdAt: "2024-01-01T12:34:56.789Z",
+  message: {
+    fragments: [
+      { text: "hello ", emote: null },
+      { text: "Kappa", emote: { id: "25;6;10", emoteID: "25", from: 6 } },
+      { text: " world ", emote: null },
+      {
+        text: "PogChamp",
+        emote: { id: "305954156;18;25", emoteID: "305954156", from: 18 },
+      },
+    ],
+    userBadges: [
+      { id: "c3Vic2NyaWJlcjsxMjs=", setID: "subscriber", version: "12" },
+      { id: "bW9kZXJhdG9yOzE7", setID: "moderator", version: "1" },
+    ],
+    userColor: "#FF0000",
+  },
+};
+
+describe("toChatMessage", () => {
+  describe("Normal cases", () => {
+    it("should convert a comment node into a chat message", () => {
+      const message = toChatMessage(node);
+
+      expect(message).toEqual({
+        id: "comment1",
+        text: "hello Kappa world PogChamp",
+        createdAt: new Date("2024-01-01T12:34:56.789Z"),
+        contentOffsetSeconds: 42,
+        author: {
+          id: "user1",
+          login: "testuser1",
+          displayName: "TestUser1",
+          color: "#FF0000",
+        },
+        emotes: [
+          {
+            id: "25",
+            name: "Kappa",
+            start: 6,
+            end: 11,
+            images: {
+              small:
+                "https://static-cdn.jtvnw.net/emoticons/v2/25/default/dark/1.0",
+              medium:
+                "https://static-cdn.jtvnw.net/emoticons/v2/25/default/dark/2.0",
+              large:
+                "https://static-cdn.jtvnw.net/emoticons/v2/25/default/dark/3.0",
+            },
+          },
+          {
+            id: "305954156",
+            name: "PogChamp",
+            start: 18,
+            end: 26,
+            images: expect.any(Object),
+          },
+        ],
+        badges: [
+          { setId: "subscriber", version: "12" },
+          { setId: "moderator", version: "1" },
+        ],
+        roles: {
+          broadcaster: false,
+          moderator: true,
+          vip: false,
+          staff: false,
+          subscriber: { months: 12, tier: 1 },
+          founder: false,
+          bits: null,
+          unknownBadges: [],
+        },
+      });
+    });
+
+    it("should give emote spans that slice the text", () => {
+      const { text, emotes } = toChatMessage(node);
+
+      expect(emotes.map(({ start, end }) => text.slice(start, end))).toEqual([
+        "Kappa",
+        "PogChamp",
+      ]);
+    });
+
+    it("should return a null author for deleted accounts", () => {
+      const message = toChatMessage({ ...node, commenter: null });
+
+      expect(message.author).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import type { ChatBadge } from "./message";
+
+/**
+ * Subscription tier: 1 for Tier 1 (including Prime), 2 or 3
+ */
+export type SubscriptionTier = 1 | 2 | 3;
+
+/**
+ * Subscription shown by a subscriber badge
+ */
+export type Subscription = {
+  /**
+   * Subscription length in months shown by the badge, such as 12.
+   * The badge of the first month counts as 1.
+   */
+  months: number;
+  /**
+   * Subscription tier
+   */
+  tier: SubscriptionTier;
+};
+
+/**
+ * Roles of a chatter when a message was sent, decoded from their badges
+ */
+export type ChatterRoles = {
+  /**
+   * Whether the chatter is the owner of the channel
+   */
+  broadcaster: boolean;
+  /**
+   * Whether the chatter is a moderator of the channel
+   */
+  moderator: boolean;
+  /**
+   * Whether the chatter is a VIP of the channel
+   */
+  vip: boolean;
+  /**
+   * Whether the chatter is a Twitch staff member
+   */
+  staff: boolean;
+  /**
+   * Subscription shown by the subscriber badge, or null without one.
+   * Founders show the founder badge instead.
+   */
+  subscriber: Subscription | null;
+  /**
+   * Whether the chatter is one of the first subscribers of the channel
+   */
+  founder: boolean;
+  /**
+   * Amount of bits shown by the bits badge, such as 1000, or null without one
+   */
+  bits: number | null;
+  /**
+   * Badges that are not decoded above, as they are
+   */
+  unknownBadges: ChatBadge[];
+};
+
+/**
+ * URLs of a badge image at each size
+ */
+export type BadgeImages = {
+  /**
+   * 18x18 image
+   */
+  small: string;
+  /**
+   * 36x36 image
+   */
+  medium: string;
+  /**
+   * 72x72 image
+   */
+  large: string;
+};
+
+/**
+ * Display information of a badge
+ */
+export type BadgeInfo = ChatBadge & {
+  /**
+   * Title shown when hovering the badge, such as "1-Year Subscriber"
+   */
+  title: string;
+  /**
+   * URLs of the badge image
+   */
+  images: BadgeImages;
+};
+
+/**
+ * Parse a badge version made of digits
+ * @param version - Badge version
+ * @returns Version as a number, or undefined if it is not made of digits
+ */
+function parseVersion(version: string): number | undefined {
+  return /^\d+$/.test(version) ? Number(version) : undefined;
+}
+
+/**
+ * Decode the roles of a chatter from their badges.
+ * Subscriber badge versions encode the tier in the thousands, such as "2012"
+ * for 12 months at Tier 2.
+ * @param badges - Badges of the chatter
+ * @returns Roles of the chatter, with the badges that were not decoded
+ */
+export function decodeBadges(badges: ChatBadge[]): ChatterRoles {
+  const roles: ChatterRoles = {
+    broadcaster: false,
+    moderator: false,
+    vip: false,
+    staff: false,
+    subscriber: null,
+    founder: false,
+    bits: null,
+    unknownBadges: [],
+  };
+
+  for (const badge of badges) {
+    const version = parseVersion(badge.version);
+
+    switch (badge.setId) {
+      case "broadcaster":
+      case "moderator":
+      case "vip":
+      case "staff":
+      case "founder":
+        roles[badge.setId] = true;
+        continue;
+      case "subscriber":
+        if (version !== undefined && version < 4000) {
+          roles.subscriber = {
+            months: Math.max(1, version % 1000),
+            tier: version >= 3000 ? 3 : version >= 2000 ? 2 : 1,
+          };
+          continue;
+        }
+        break;
+      case "bits":
+        if (version !== undefined) {
+          roles.bits = version;
+          continue;
+        }
+        break;
+    }
+
+    roles.unknownBadges.push(badge);
+  }
+
+  return roles;
+}
@@ -0,0 +1,75 @@
+/**
+ * Collects items requested during the same event loop turn and executes
+ * them together, in batches of a maximum size
+ */
+export class RequestBatcher<T, R> {
+  private readonly maxSize: number;
+  private readonly execute: (
+    items: T[],
+  ) => Promise<Array<PromiseSettledResult<R>>>;
+  private pending: Array<{
+    item: T;
+    resolve: (result: R) => void;
+    reject: (error: unknown) => void;
+  }> = [];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * @param maxSize - Maximum number of items executed together
+   * @param execute - Execute a batch, returning one result per item in order
+   */
+  constructor(
+    maxSize: number,
+    execute: (items: T[]) => Promise<Array<PromiseSettledResult<R>>>,
+  ) {
+    this.maxSize = Math.max(1, maxSize);
+    this.execute = execute;
+  }
+
+  /**
+   * Queue an item for the next batch
+   * @param item - Item to execute
+   * @returns Result of the item
+   */
+  load(item: T): Promise<R> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ item, resolve, reject });
+
+      if (this.pending.length >= this.maxSize) {
+        this.flush();
+      } else if (this.timer === undefined) {
+        // Wait for the other items requested during this turn
+        this.timer = setTimeout(() => this.flush(), 0);
+      }
+    });
+  }
+
+  private flush(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    const batch = this.pending;
+    this.pending = [];
+    if (batch.length === 0) {
+      return;
+    }
+
+    this.execute(batch.map(({ item }) => item)).then(
+      (results) => {
+        batch.forEach(({ resolve, reject }, index) => {
+          const result = results[index];
+          if (result?.status === "fulfilled") {
+            resolve(result.value);
+          } else {
+            reject(result?.reason);
+          }
+        });
+      },
+      (error) => {
+        for (const { reject } of batch) {
+          reject(error);
+        }
+      },
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+/**
+ * Response stored in a cache
+ */
+export type CacheEntry = {
+  /**
+   * Response as returned by Twitch
+   */
+  value: unknown;
+  /**
+   * Time the response was stored, in milliseconds since the epoch
+   */
+  storedAt: number;
+};
+
+/**
+ * Storage for responses, used to avoid requesting the same page again
+ */
+export type ResponseCache = {
+  /**
+   * Get a stored response
+   * @param key - Key of the response
+   * @returns Stored entry, or undefined if there is none
+   */
+  get(key: string): Promise<CacheEntry | undefined>;
+  /**
+   * Store a response
+   * @param key - Key of the response
+   * @param entry - Entry to store
+   */
+  set(key: string, entry: CacheEntry): Promise<void>;
+  /**
+   * Remove a stored response
+   * @param key - Key of the response
+   */
+  delete(key: string): Promise<void>;
+};
+
+/**
+ * How the cache is used by a call:
+ * - "use": read stored responses and store new ones
+ * - "refresh": request every response again and store it
+ * - "bypass": neither read nor store responses
+ */
+export type CacheMode = "use" | "refresh" | "bypass";
+
+/**
+ * Options for caching responses
+ */
+export type CacheOptions = {
+  /**
+   * Storage for responses
+   */
+  store: ResponseCache;
+  /**
+   * Maximum age of a stored response in seconds, older ones are requested
+   * again
+   * @default Infinity
+   */
+  ttlSeconds?: number;
+  /**
+   * How the cache is used
+   * @default "use"
+   */
+  mode?: CacheMode;
+};
+
+/**
+ * Response cache that keeps entries in memory for the lifetime of the process
+ */
+export class MemoryResponseCache implements ResponseCache {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  get(key: string): Promise<CacheEntry | undefined> {
+    return Promise.resolve(this.entries.get(key));
+  }
+
+  set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.set(key, entry);
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Response cache that stores each entry in a JSON file, named after the hash
+ * of its key
+ */
+export class FileResponseCache implements ResponseCache {
+  private readonly directory: string;
+
+  /**
+   * @param directory - Directory to write cache files to
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    let content: string;
+    try {
+      content = await readFile(this.pathOf(key), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+
+    try {
+      return JSON.parse(content);
+    } catch {
+      // The file may be incomplete if the process died while writing
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.pathOf(key), JSON.stringify(entry));
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathOf(key), { force: true });
+  }
+
+  private pathOf(key: string): string {
+    const hash = createHash("sha256").update(key).digest("hex");
+    return join(this.directory, `${hash}.json`);
+  }
+}
@@ -0,0 +1,104 @@
+import { appendFile, mkdir, readFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+import type { Node } from "./client";
+
+/**
+ * Completed chunk recorded in a checkpoint
+ */
+export type CheckpointChunk = {
+  /**
+   * Start offset in seconds (inclusive)
+   */
+  start: number;
+  /**
+   * End offset in seconds (exclusive)
+   */
+  end: number;
+  /**
+   * Comment nodes of the chunk
+   */
+  nodes: Node[];
+};
+
+/**
+ * Storage for chunks completed by fetchAllMessages, used to resume a run
+ */
+export type CheckpointStore = {
+  /**
+   * Load every chunk recorded for a video
+   * @param videoId - Twitch VOD ID
+   * @returns Recorded chunks, empty if there are none
+   */
+  load(videoId: string): Promise<CheckpointChunk[]>;
+  /**
+   * Record a completed chunk
+   * @param videoId - Twitch VOD ID
+   * @param chunk - Completed chunk
+   */
+  save(videoId: string, chunk: CheckpointChunk): Promise<void>;
+  /**
+   * Remove every chunk recorded for a video
+   * @param videoId - Twitch VOD ID
+   */
+  clear(videoId: string): Promise<void>;
+};
+
+/**
+ * Checkpoint store that records chunks in one JSON Lines file per video
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  private readonly directory: string;
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param directory - Directory to write checkpoint files to
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async load(videoId: string): Promise<CheckpointChunk[]> {
+    let content: string;
+    try {
+      content = await readFile(this.pathOf(videoId), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const chunks: CheckpointChunk[] = [];
+    for (const line of content.split("\n")) {
+      if (line === "") {
+        continue;
+      }
+      try {
+        chunks.push(JSON.parse(line));
+      } catch {
+        // The last line may be incomplete if the process died while writing
+      }
+    }
+
+    return chunks;
+  }
+
+  save(videoId: string, chunk: CheckpointChunk): Promise<void> {
+    // Serialize writes so that lines of concurrent chunks never interleave
+    const write = this.queue.then(async () => {
+      await mkdir(this.directory, { recursive: true });
+      await appendFile(this.pathOf(videoId), `${JSON.stringify(chunk)}\n`);
+    });
+    this.queue = write.catch(() => {});
+
+    return write;
+  }
+
+  async clear(videoId: string): Promise<void> {
+    await rm(this.pathOf(videoId), { force: true });
+  }
+
+  private pathOf(videoId: string): string {
+    return join(this.directory, `${encodeURIComponent(videoId)}.jsonl`);
+  }
+}
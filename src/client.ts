@@ -1,423 +1,3298 @@
 import type { z } from "zod";
-import { schema } from "./schema";
 import {
+  channelBadgesQuery,
+  channelBadgesSchema,
+  clipSourceQuery,
+  clipSourceSchema,
+  commentEdgeSchema,
+  commentsQuery,
+  commentsResultSchema,
+  graphqlErrorsSchema,
+  lenientCommentsResultSchema,
+  videoMetadataQuery,
+  videoMetadataSchema,
+} from "./schema";
+import {
+  AbortError,
+  AuthenticationError,
+  ChannelNotFoundError,
   ClientIdRetrievalError,
+  ClipNotFoundError,
+  ClipSourceUnavailableError,
+  CommentsUnavailableError,
+  GraphQLError,
   HttpError,
+  InvalidInputError,
   ResponseParseError,
+  VideoNotFoundError,
+  VideoRestrictedError,
+  type GraphQLErrorDetail,
 } from "./errors";
+import {
+  fetchWithRetry,
+  sleep,
+  throwIfAborted,
+  type RetryAttempt,
+  type RetryPolicy,
+} from "./retry";
+import type { CheckpointStore } from "./checkpoint";
+import { RequestBatcher } from "./batch";
+import type { CacheOptions } from "./cache";
+import { RequestPool } from "./pool";
+import { ChunkScheduler, type Chunk } from "./scheduler";
+import { toChatMessage, type ChatMessage } from "./message";
+import type { BadgeInfo } from "./badges";
+import {
+  parseChannelReference,
+  parseClipReference,
+  parseOffset,
+  parseVideoReference,
+  type Offset,
+  type VideoReference,
+} from "./reference";
+import {
+  defaultChannelPageUrl,
+  defaultClipPageUrl,
+  defaultGqlUrl,
+  defaultVideoPageUrl,
+  type Transport,
+} from "./transport";
 
 /**
- * Retrieve Client ID from Twitch VOD page HTML
- * @param videoId - Twitch VOD ID
+ * Options shared by every function that makes requests
+ */
+export type RequestOptions = {
+  /**
+   * Retry policy for transient HTTP and network failures
+   */
+  retry?: RetryPolicy;
+  /**
+   * Signal to cancel the operation
+   */
+  signal?: AbortSignal;
+  /**
+   * Custom fetch implementation and endpoint URLs
+   */
+  transport?: Transport;
+  /**
+   * How the comments query is identified
+   */
+  persistedQuery?: PersistedQueryOptions;
+  /**
+   * OAuth token sent with GraphQL requests, needed for subscriber-only videos
+   */
+  authToken?: AuthToken;
+  /**
+   * How comment edges are validated.
+   * In strict mode, a single invalid edge fails its whole page.
+   * In lenient mode, each edge is validated on its own and invalid edges are
+   * skipped and reported.
+   * @default "strict"
+   */
+  parseMode?: ParseMode;
+  /**
+   * Cache of comment pages and of the scraped Client ID
+   */
+  cache?: CacheOptions;
+  /**
+   * Callbacks around each HTTP request
+   */
+  hooks?: RequestHooks;
+};
+
+/**
+ * HTTP request made to Twitch
+ */
+export type RequestDetails = {
+  /**
+   * "ClientId" for the page scraped for the Client ID, otherwise the name of
+   * the GraphQL operation
+   */
+  operation: string;
+  /**
+   * Content offsets of the comment pages requested by offset
+   */
+  offsets: number[];
+  /**
+   * Request URL
+   */
+  url: string;
+  /**
+   * Number of the attempt, starting from 1
+   */
+  attempt: number;
+};
+
+/**
+ * HTTP response received from Twitch
+ */
+export type ResponseDetails = RequestDetails & {
+  /**
+   * HTTP status code
+   */
+  status: number;
+  /**
+   * Time until the response headers were received, in milliseconds
+   */
+  latencyMs: number;
+  /**
+   * Size of the response body in bytes, after decompression
+   */
+  bytes: number;
+};
+
+/**
+ * HTTP request that failed without a response
+ */
+export type RequestErrorDetails = RequestDetails & {
+  /**
+   * Error thrown by fetch
+   */
+  error: unknown;
+  /**
+   * Time until the request failed, in milliseconds
+   */
+  latencyMs: number;
+};
+
+/**
+ * Callbacks around each HTTP request, including retries
+ */
+export type RequestHooks = {
+  /**
+   * Called before each request
+   */
+  onRequest?: (request: RequestDetails) => void;
+  /**
+   * Called with each response, whatever its status
+   */
+  onResponse?: (response: ResponseDetails) => void;
+  /**
+   * Called when a request fails without a response, such as on network
+   * errors
+   */
+  onError?: (error: RequestErrorDetails) => void;
+};
+
+/**
+ * How comment edges are validated
+ */
+export type ParseMode = "strict" | "lenient";
+
+/**
+ * Comment edge skipped in lenient parse mode
+ */
+export type SkippedEdge = {
+  /**
+   * Edge as returned by Twitch
+   */
+  edge: unknown;
+  /**
+   * Validation issues of the edge
+   */
+  issues: z.ZodIssue[];
+};
+
+/**
+ * OAuth token, or a function returning one.
+ * A function is called again once when the token is rejected, so that it can
+ * return a refreshed token.
+ */
+export type AuthToken = string | (() => Promise<string>);
+
+/**
+ * Options for the persisted comments query
+ */
+export type PersistedQueryOptions = {
+  /**
+   * SHA-256 hash of the persisted VideoCommentsByOffsetOrCursor query,
+   * overriding the built-in one
+   */
+  sha256Hash?: string;
+  /**
+   * Send the full query text instead when Twitch reports the persisted query
+   * as not found
+   * @default false
+   */
+  fallbackToQuery?: boolean;
+};
+
+/**
+ * Built-in SHA-256 hash of the persisted VideoCommentsByOffsetOrCursor query
+ */
+const defaultCommentsQueryHash =
+  "b70a3591ff0f4e0313d126c6a1502d79a1c02baebb288227c582044aa76adf6a";
+
+/**
+ * Settings shared by every request made during a single call
+ */
+type RequestContext = {
+  /**
+   * Retry policy for HTTP requests
+   */
+  retry: RetryPolicy | undefined;
+  /**
+   * Signal to cancel every request
+   */
+  signal: AbortSignal | undefined;
+  /**
+   * fetch implementation
+   */
+  fetch: typeof fetch;
+  /**
+   * Twitch GraphQL endpoint URL
+   */
+  gqlUrl: string;
+  /**
+   * Base URL of video pages
+   */
+  videoPageUrl: string;
+  /**
+   * Base URL of clip pages
+   */
+  clipPageUrl: string;
+  /**
+   * Base URL of channel pages
+   */
+  channelPageUrl: string;
+  /**
+   * Pool limiting the number of requests in flight
+   */
+  pool: RequestPool;
+  /**
+   * Batches comment pages requested at the same time into one request
+   */
+  comments: RequestBatcher<CommentsRequest, CommentsPage>;
+  /**
+   * How comment edges are validated
+   */
+  parseMode: ParseMode;
+  /**
+   * Called with each edge skipped while fetching chunks in lenient parse mode
+   */
+  onSkippedEdge: ((skipped: SkippedEdge) => void) | undefined;
+  /**
+   * Cursors of the skipped edges already reported, since pages of
+   * neighbouring chunks overlap
+   */
+  skippedCursors: Set<string>;
+  /**
+   * SHA-256 hash of the persisted comments query
+   */
+  commentsQueryHash: string;
+  /**
+   * Whether the full comments query is sent when the persisted query is not found
+   */
+  fallbackToQuery: boolean;
+  /**
+   * Set once the persisted query is not found, to send the full query from then on
+   */
+  sendCommentsQuery: boolean;
+  /**
+   * Cache of responses, if any
+   */
+  cache: CacheOptions | undefined;
+  /**
+   * Resolve the Client ID to send with GraphQL requests
+   * @param rejected - Client ID rejected by the GraphQL endpoint, if any
+   */
+  resolveClientId: (rejected?: string) => Promise<string>;
+  /**
+   * Callbacks around each HTTP request
+   */
+  hooks: RequestHooks;
+  /**
+   * Called with each lifecycle event of the call
+   */
+  onEvent: ((event: FetchAllMessagesEvent) => void) | undefined;
+  /**
+   * Called before waiting for each retry of a request
+   */
+  onRetry: (attempt: RetryAttempt) => void;
+  /**
+   * Called after each comment page fetched for a chunk
+   */
+  onPage: (() => void) | undefined;
+  /**
+   * Counters of the work done during the call
+   */
+  stats: {
+    /**
+     * Number of HTTP requests, including retries
+     */
+    requests: number;
+    /**
+     * Number of comment pages fetched for chunks
+     */
+    pages: number;
+    /**
+     * Number of bytes of response bodies received, after decompression
+     */
+    bytes: number;
+    /**
+     * Number of retried requests
+     */
+    retries: number;
+    /**
+     * Latency of each request in milliseconds
+     */
+    latenciesMs: number[];
+    /**
+     * Time the call started, in milliseconds since the epoch
+     */
+    startedAt: number;
+  };
+  /**
+   * Resolve the OAuth token to send with GraphQL requests, if any
+   * @param rejected - Token rejected by the GraphQL endpoint, if any
+   */
+  resolveAuthToken: (rejected?: string) => Promise<string | undefined>;
+};
+
+/**
+ * Cache key of the scraped Client ID
+ */
+const clientIdCacheKey = "client-id";
+
+/**
+ * Read a response from the cache, unless it is expired or the cache is not
+ * read by this call
+ * @param context - Request settings
+ * @param key - Key of the response
+ * @returns Cached response, or undefined if there is none
+ */
+async function readCache(
+  context: RequestContext,
+  key: string,
+): Promise<unknown> {
+  const cache = context.cache;
+  if (cache === undefined || (cache.mode ?? "use") !== "use") {
+    return undefined;
+  }
+
+  const entry = await cache.store.get(key);
+  const ttlSeconds = cache.ttlSeconds ?? Infinity;
+  if (entry === undefined || Date.now() - entry.storedAt > ttlSeconds * 1000) {
+    return undefined;
+  }
+
+  return entry.value;
+}
+
+/**
+ * Store a response in the cache, unless the cache is bypassed by this call
+ * @param context - Request settings
+ * @param key - Key of the response
+ * @param value - Response to store
+ */
+async function writeCache(
+  context: RequestContext,
+  key: string,
+  value: unknown,
+): Promise<void> {
+  const cache = context.cache;
+  if (cache === undefined || cache.mode === "bypass") {
+    return;
+  }
+
+  await cache.store.set(key, { value, storedAt: Date.now() });
+}
+
+/**
+ * Create a fetch implementation for the requests of an operation, calling the
+ * request hooks and recording latency and size
+ * @param context - Request settings
+ * @param operation - Operation name and requested offsets
+ * @returns fetch implementation
+ */
+function createOperationFetch(
+  context: RequestContext,
+  operation: Pick<RequestDetails, "operation" | "offsets">,
+): typeof fetch {
+  let attempt = 0;
+
+  return async (input, init) => {
+    const request: RequestDetails = {
+      ...operation,
+      url: String(input),
+      attempt: ++attempt,
+    };
+    context.hooks.onRequest?.(request);
+
+    const startedAt = performance.now();
+    let res: Response;
+    let latencyMs: number | undefined;
+    let bytes = 0;
+    try {
+      res = await context.fetch(input, init);
+      latencyMs = performance.now() - startedAt;
+      // The hook needs the size before the body is read, so it reads a copy.
+      // Otherwise the size is recorded when the body is read.
+      if (
+        context.hooks.onResponse !== undefined &&
+        res.body !== null &&
+        res.body !== undefined
+      ) {
+        bytes = (await res.clone().arrayBuffer()).byteLength;
+      }
+    } catch (error) {
+      latencyMs ??= performance.now() - startedAt;
+      context.stats.latenciesMs.push(latencyMs);
+      context.hooks.onError?.({ ...request, error, latencyMs });
+      throw error;
+    }
+
+    context.stats.latenciesMs.push(latencyMs);
+    context.stats.bytes += bytes;
+    context.hooks.onResponse?.({
+      ...request,
+      status: res.status,
+      latencyMs,
+      bytes,
+    });
+
+    return res;
+  };
+}
+
+/**
+ * Read the body of a response as text and record its size, unless the
+ * onResponse hook already measured it
+ * @param res - Response to read
+ * @param context - Request settings
+ * @returns Body text, or undefined if the body was left unread
+ */
+async function readMeasuredBody(
+  res: Response,
+  context: RequestContext,
+): Promise<string | undefined> {
+  if (
+    context.hooks.onResponse !== undefined ||
+    res.body === null ||
+    res.body === undefined
+  ) {
+    return undefined;
+  }
+
+  const buffer = await res.arrayBuffer();
+  context.stats.bytes += buffer.byteLength;
+  return new TextDecoder().decode(buffer);
+}
+
+/**
+ * Page scraped for the Client ID: the page of a video, clip or channel
+ */
+type ClientIdPage =
+  | { videoId: string }
+  | { clipSlug: string }
+  | { channel: string };
+
+/**
+ * Retrieve Client ID from the cache, or from Twitch VOD, clip or channel page
+ * HTML
+ * @param page - Video, clip or channel whose page is scraped
+ * @param context - Request settings
+ * @param rejected - Client ID rejected by the GraphQL endpoint, which is
+ * scraped again instead of read from the cache
  * @returns Client ID string
- * @throws {HttpError} When HTTP request fails
+ * @throws {HttpError} When HTTP request fails after all retries
  * @throws {ClientIdRetrievalError} When Client ID retrieval fails
  */
-async function retrieveClientId(videoId: string): Promise<string> {
-  const url = `https://www.twitch.tv/videos/${videoId}`;
-  const res = await fetch(url);
+async function retrieveClientId(
+  page: ClientIdPage,
+  context: RequestContext,
+  rejected?: string,
+): Promise<string> {
+  const cached = await readCache(context, clientIdCacheKey);
+  if (typeof cached === "string" && cached !== rejected) {
+    return cached;
+  }
+
+  const url =
+    "videoId" in page
+      ? `${context.videoPageUrl}${page.videoId}`
+      : "clipSlug" in page
+        ? `${context.clipPageUrl}${page.clipSlug}`
+        : `${context.channelPageUrl}${page.channel}`;
+  const res = await context.pool.run(() =>
+    fetchWithRetry(
+      url,
+      { signal: context.signal ?? null },
+      context.retry,
+      createOperationFetch(context, { operation: "ClientId", offsets: [] }),
+      context.onRetry,
+    ),
+  );
+
+  const html = (await readMeasuredBody(res, context)) ?? (await res.text());
+
+  const search = 'clientId="';
+  const searchIndex = html.indexOf(search);
+
+  if (searchIndex === -1) {
+    throw new ClientIdRetrievalError(
+      "videoId" in page
+        ? `Failed to find client ID in HTML for video ${page.videoId}`
+        : "clipSlug" in page
+          ? `Failed to find client ID in HTML for clip ${page.clipSlug}`
+          : `Failed to find client ID in HTML for channel ${page.channel}`,
+    );
+  }
+
+  const startIndex = searchIndex + search.length;
+  const endIndex = html.indexOf('"', startIndex);
+  const clientId = html.slice(startIndex, endIndex);
+  await writeCache(context, clientIdCacheKey, clientId);
+
+  return clientId;
+}
+
+/**
+ * Position to request comments from: either a content offset or an edge cursor
+ */
+type CommentsPosition = { contentOffsetSeconds: number } | { cursor: string };
+
+/**
+ * Single page of comments to request
+ */
+type CommentsRequest = {
+  /**
+   * Twitch VOD ID
+   */
+  videoId: string;
+  /**
+   * Position to request comments from
+   */
+  position: CommentsPosition;
+};
+
+/**
+ * Get the cache key of a comment page
+ * @param request - Page to request
+ * @param context - Request settings
+ * @returns Key made of the video ID, the position and the query hash
+ */
+function commentsCacheKey(
+  request: CommentsRequest,
+  context: RequestContext,
+): string {
+  const { videoId, position } = request;
+  const from =
+    "cursor" in position
+      ? `cursor:${position.cursor}`
+      : `offset:${position.contentOffsetSeconds}`;
+
+  return `comments:${context.commentsQueryHash}:${videoId}:${from}`;
+}
+
+/**
+ * Create request payload for Twitch GraphQL API
+ * @param requests - Pages of comments to request, one operation each
+ * @param query - Hash of the persisted query, or full query text
+ * @returns GraphQL request payload
+ */
+function createPayload(
+  requests: CommentsRequest[],
+  query: { sha256Hash: string } | { query: string },
+) {
+  return requests.map(({ videoId, position }) => ({
+    operationName: "VideoCommentsByOffsetOrCursor",
+    variables: {
+      videoID: videoId,
+      ...position,
+    },
+    ...("query" in query
+      ? { query: query.query }
+      : {
+          extensions: {
+            persistedQuery: {
+              version: 1,
+              sha256Hash: query.sha256Hash,
+            },
+          },
+        }),
+  }));
+}
+
+/**
+ * Result of a single VideoCommentsByOffsetOrCursor operation
+ */
+type CommentsResult = z.infer<typeof commentsResultSchema>;
+
+/**
+ * Comments connection of a single page
+ */
+type Comments = NonNullable<
+  NonNullable<CommentsResult["data"]["video"]>["comments"]
+>;
+
+/**
+ * VOD comment node type
+ */
+export type Node = Comments["edges"][number]["node"];
+
+/**
+ * Type of the messages returned for the `normalize` option: ChatMessage when
+ * true, otherwise the comment node
+ */
+export type MessageOf<N extends boolean> = N extends true ? ChatMessage : Node;
+
+/**
+ * Option to return chat messages instead of comment nodes
+ */
+export type NormalizeOptions<N extends boolean = boolean> = {
+  /**
+   * Convert every node with toChatMessage
+   * @default false
+   */
+  normalize?: N;
+};
+
+/**
+ * Convert comment nodes into chat messages when requested
+ * @param nodes - Comment nodes
+ * @param normalize - Whether to convert the nodes
+ * @returns Chat messages, or the nodes themselves
+ */
+function normalizeMessages<N extends boolean>(
+  nodes: Node[],
+  normalize: N | undefined,
+): Array<MessageOf<N>> {
+  return (normalize === true ? nodes.map(toChatMessage) : nodes) as Array<
+    MessageOf<N>
+  >;
+}
+
+/**
+ * Convert a comment node into a chat message when requested
+ * @param node - Comment node
+ * @param normalize - Whether to convert the node
+ * @returns Chat message, or the node itself
+ */
+function normalizeMessage<N extends boolean>(
+  node: Node,
+  normalize: N | undefined,
+): MessageOf<N> {
+  return (normalize === true ? toChatMessage(node) : node) as MessageOf<N>;
+}
+
+/**
+ * Comments connection of a single page, with the edges that failed validation
+ */
+type CommentsPage = Comments & {
+  /**
+   * Cursor of the last edge of the page, skipped or not
+   */
+  endCursor: string | null;
+  /**
+   * Edges skipped in lenient parse mode
+   */
+  skippedEdges: SkippedEdge[];
+};
+
+/**
+ * Parse a single GraphQL result
+ * @param schema - Schema of the result data
+ * @param json - Result to parse
+ * @returns Parsed result
+ * @throws {GraphQLError} When the result carries errors instead of data
+ * @throws {ResponseParseError} When response parsing fails
+ */
+function parseGqlResult<T extends z.ZodTypeAny>(
+  schema: T,
+  json: unknown,
+): z.infer<T> {
+  const result = schema.safeParse(json);
+  if (result.success) {
+    return result.data;
+  }
+
+  const errors = graphqlErrorsSchema.safeParse(json);
+  if (errors.success) {
+    throw new GraphQLError(
+      `GraphQL request failed: ${errors.data.errors.map((e) => e.message).join(", ")}`,
+      errors.data.errors,
+    );
+  }
+
+  throw new ResponseParseError(
+    "Failed to parse GraphQL response",
+    result.error.errors,
+  );
+}
+
+/**
+ * Check whether an error means the persisted query hash is unknown to Twitch
+ * @param error - Error thrown when parsing a GraphQL result
+ * @returns True if the persisted query was not found
+ */
+function isPersistedQueryNotFound(error: unknown): boolean {
+  return (
+    error instanceof GraphQLError &&
+    error.errors.some((e) => e.message === "PersistedQueryNotFound")
+  );
+}
+
+/**
+ * Check whether an error means the GraphQL endpoint rejected the Client ID
+ * @param error - Error thrown by a GraphQL request
+ * @returns True if the Client ID was rejected
+ */
+function isClientIdRejection(error: unknown): boolean {
+  return (
+    error instanceof HttpError &&
+    (error.statusCode === 400 || error.statusCode === 401)
+  );
+}
+
+/**
+ * Create a function resolving the OAuth token of a call.
+ * A token returned by a provider is cached until it is rejected.
+ * @param authToken - OAuth token or token provider
+ * @returns Function resolving the token, given the rejected one if any
+ */
+function createAuthTokenResolver(
+  authToken: AuthToken | undefined,
+): (rejected?: string) => Promise<string | undefined> {
+  if (typeof authToken !== "function") {
+    return () => Promise.resolve(authToken);
+  }
+
+  let cached: Promise<string> | undefined;
+  return (rejected) => {
+    if (cached === undefined) {
+      cached = authToken();
+    } else if (rejected !== undefined) {
+      // Requests rejected at the same time refresh the token only once
+      cached = cached.then((token) =>
+        token === rejected ? authToken() : token,
+      );
+    }
+
+    return cached;
+  };
+}
+
+/**
+ * Convert an HTTP 401 error into an AuthenticationError
+ * @param error - Error thrown by a GraphQL request
+ * @returns AuthenticationError, or the error itself if it is not an HTTP 401
+ */
+function toAuthenticationError(error: unknown): unknown {
+  if (
+    !(error instanceof HttpError) ||
+    error.statusCode !== 401 ||
+    error instanceof AuthenticationError
+  ) {
+    return error;
+  }
+
+  return new AuthenticationError(error.url, undefined, {
+    attempts: error.attempts,
+    ...(error.headers !== undefined && { headers: error.headers }),
+  });
+}
+
+/**
+ * Operation sent to Twitch GraphQL API
+ */
+type GqlOperation = {
+  operationName: string;
+  variables: Record<string, unknown>;
+  query?: string;
+  extensions?: unknown;
+};
+
+/**
+ * Send a request to Twitch GraphQL API.
+ * If the OAuth token or the Client ID is rejected, it is resolved again and
+ * the request is retried once.
+ * @param payload - GraphQL request payload
+ * @param context - Request settings
+ * @returns Parsed JSON response body
+ * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
+ * @throws {HttpError} When HTTP request fails after all retries
+ */
+async function requestGql(
+  payload: GqlOperation | GqlOperation[],
+  context: RequestContext,
+): Promise<unknown> {
+  const operations = Array.isArray(payload) ? payload : [payload];
+  const operation = {
+    operation: operations[0]?.operationName ?? "",
+    offsets: operations.flatMap(({ variables }) => {
+      const offset = variables["contentOffsetSeconds"];
+      return typeof offset === "number" ? [offset] : [];
+    }),
+  };
+
+  const request = (clientId: string, authToken: string | undefined) => {
+    const headers: Record<string, string> = {
+      "client-id": clientId,
+    };
+    if (authToken !== undefined) {
+      headers["authorization"] = `OAuth ${authToken}`;
+    }
+
+    return context.pool.run(() =>
+      fetchWithRetry(
+        context.gqlUrl,
+        {
+          method: "POST",
+          headers,
+          body: JSON.stringify(payload),
+          signal: context.signal ?? null,
+        },
+        context.retry,
+        createOperationFetch(context, operation),
+        context.onRetry,
+      ),
+    );
+  };
+
+  let clientId = await context.resolveClientId();
+  let authToken = await context.resolveAuthToken();
+  let res: Response;
+  try {
+    res = await request(clientId, authToken);
+  } catch (error) {
+    if (
+      authToken !== undefined &&
+      error instanceof HttpError &&
+      error.statusCode === 401
+    ) {
+      // The token may have expired, resolve it again once
+      const refreshedAuthToken = await context.resolveAuthToken(authToken);
+      if (refreshedAuthToken === authToken) {
+        throw toAuthenticationError(error);
+      }
+      authToken = refreshedAuthToken;
+    } else if (isClientIdRejection(error)) {
+      // The cached Client ID may be stale, resolve it again once
+      const refreshedClientId = await context.resolveClientId(clientId);
+      if (refreshedClientId === clientId) {
+        throw toAuthenticationError(error);
+      }
+      clientId = refreshedClientId;
+    } else {
+      throw error;
+    }
+
+    try {
+      res = await request(clientId, authToken);
+    } catch (retryError) {
+      throw toAuthenticationError(retryError);
+    }
+  }
+
+  const body = await readMeasuredBody(res, context);
+  return body === undefined ? res.json() : JSON.parse(body);
+}
+
+/**
+ * Get the comments connection of a result, mapping missing data to errors
+ * @param videoId - Twitch VOD ID
+ * @param result - Parsed result
+ * @returns Comments connection
+ * @throws {VideoNotFoundError} When the video does not exist
+ * @throws {VideoRestrictedError} When the comments cannot be accessed
+ * @throws {CommentsUnavailableError} When the video provides no comments
+ */
+function commentsOf<T>(
+  videoId: string,
+  result: {
+    data: { video: { comments: T | null } | null };
+    errors?: GraphQLErrorDetail[] | undefined;
+  },
+): T {
+  const video = result.data.video;
+  // Twitch reports why the video or its comments are null when access is
+  // denied, for example to private and subscriber-only videos
+  const errors = result.errors ?? [];
+
+  if (video === null) {
+    if (errors.length > 0) {
+      throw new VideoRestrictedError(videoId, errors);
+    }
+    throw new VideoNotFoundError(videoId);
+  }
+
+  if (video.comments === null) {
+    if (errors.length > 0) {
+      throw new VideoRestrictedError(videoId, errors);
+    }
+    throw new CommentsUnavailableError(videoId);
+  }
+
+  return video.comments;
+}
+
+/**
+ * Parse a single comments result into a page
+ * @param videoId - Twitch VOD ID
+ * @param element - Result to parse
+ * @param parseMode - How comment edges are validated
+ * @returns Comments page
+ * @throws {GraphQLError} When the result carries errors instead of data
+ * @throws {ResponseParseError} When response parsing fails
+ * @throws {VideoNotFoundError} When the video does not exist
+ * @throws {VideoRestrictedError} When the comments cannot be accessed
+ * @throws {CommentsUnavailableError} When the video provides no comments
+ */
+function parseCommentsPage(
+  videoId: string,
+  element: unknown,
+  parseMode: ParseMode,
+): CommentsPage {
+  if (parseMode === "strict") {
+    const comments = commentsOf(
+      videoId,
+      parseGqlResult(commentsResultSchema, element),
+    );
+    return {
+      ...comments,
+      endCursor: comments.edges.at(-1)?.cursor ?? null,
+      skippedEdges: [],
+    };
+  }
+
+  const comments = commentsOf(
+    videoId,
+    parseGqlResult(lenientCommentsResultSchema, element),
+  );
+  const edges: Comments["edges"] = [];
+  const skippedEdges: SkippedEdge[] = [];
+  for (const edge of comments.edges) {
+    const result = commentEdgeSchema.safeParse(edge);
+    if (result.success) {
+      edges.push(result.data);
+    } else {
+      skippedEdges.push({ edge, issues: result.error.issues });
+    }
+  }
+
+  // Keep following the cursor of a skipped last edge when it has one
+  const lastEdge: unknown = comments.edges.at(-1);
+  const endCursor =
+    typeof lastEdge === "object" &&
+    lastEdge !== null &&
+    "cursor" in lastEdge &&
+    typeof lastEdge.cursor === "string"
+      ? lastEdge.cursor
+      : (edges.at(-1)?.cursor ?? null);
+
+  return {
+    edges,
+    pageInfo: comments.pageInfo,
+    endCursor,
+    skippedEdges,
+  };
+}
+
+/**
+ * Request several pages of comments in a single GraphQL request.
+ * If the persisted query is not found and the fallback is enabled, the pages
+ * are requested again with the full query text.
+ * @param requests - Pages of comments to request
+ * @param context - Request settings
+ * @returns Comments connection or error of each page, in request order
+ * @throws {HttpError} When HTTP request fails after all retries
+ * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
+ * @throws {ResponseParseError} When the response is not an array with one
+ * result per operation
+ */
+async function requestComments(
+  requests: CommentsRequest[],
+  context: RequestContext,
+): Promise<Array<PromiseSettledResult<CommentsPage>>> {
+  const sendQuery = context.sendCommentsQuery;
+  const json = await requestGql(
+    createPayload(
+      requests,
+      sendQuery
+        ? { query: commentsQuery }
+        : { sha256Hash: context.commentsQueryHash },
+    ),
+    context,
+  );
+
+  if (!Array.isArray(json)) {
+    throw new ResponseParseError("GraphQL response is not an array");
+  }
+  if (json.length !== requests.length) {
+    throw new ResponseParseError(
+      `GraphQL response has ${json.length} results for ${requests.length} operations`,
+    );
+  }
+
+  const results = json.map(
+    (element, index): PromiseSettledResult<CommentsPage> => {
+      try {
+        return {
+          status: "fulfilled",
+          value: parseCommentsPage(
+            requests[index]!.videoId,
+            element,
+            context.parseMode,
+          ),
+        };
+      } catch (error) {
+        return { status: "rejected", reason: error };
+      }
+    },
+  );
+
+  const notFound = results.some(
+    (result) =>
+      result.status === "rejected" && isPersistedQueryNotFound(result.reason),
+  );
+  if (notFound && !sendQuery && context.fallbackToQuery) {
+    context.sendCommentsQuery = true;
+    return requestComments(requests, context);
+  }
+
+  await Promise.all(
+    results.map((result, index) =>
+      result.status === "fulfilled"
+        ? writeCache(
+            context,
+            commentsCacheKey(requests[index]!, context),
+            json[index],
+          )
+        : undefined,
+    ),
+  );
+
+  return results;
+}
+
+/**
+ * Fetch a single page of comments from the cache or Twitch GraphQL API.
+ * Pages requested at the same time are batched into one request.
+ * @param videoId - Twitch VOD ID
+ * @param position - Content offset in seconds or cursor to start from
+ * @param context - Request settings
+ * @returns Comments connection of the page
+ * @throws {HttpError} When HTTP request fails after all retries
+ * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
+ * @throws {ResponseParseError} When response parsing fails
+ * @throws {GraphQLError} When Twitch GraphQL API returns errors
+ * @throws {VideoNotFoundError} When the video does not exist
+ * @throws {VideoRestrictedError} When the comments cannot be accessed
+ * @throws {CommentsUnavailableError} When the video provides no comments
+ */
+async function fetchComments(
+  videoId: string,
+  position: CommentsPosition,
+  context: RequestContext,
+): Promise<CommentsPage> {
+  const cached = await readCache(
+    context,
+    commentsCacheKey({ videoId, position }, context),
+  );
+  if (cached !== undefined) {
+    return parseCommentsPage(videoId, cached, context.parseMode);
+  }
+
+  return context.comments.load({ videoId, position });
+}
+
+/**
+ * Video metadata type
+ */
+export type VideoMetadata = NonNullable<
+  z.infer<typeof videoMetadataSchema>["data"]["video"]
+>;
+
+/**
+ * Fetch video metadata from Twitch GraphQL API
+ * @param videoId - Twitch VOD ID
+ * @param context - Request settings
+ * @returns Video metadata
+ * @throws {HttpError} When HTTP request fails after all retries
+ * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
+ * @throws {ResponseParseError} When response parsing fails
+ * @throws {GraphQLError} When Twitch GraphQL API returns errors
+ * @throws {VideoNotFoundError} When the video does not exist
+ * @throws {VideoRestrictedError} When the video cannot be accessed
+ */
+async function requestVideoMetadata(
+  videoId: string,
+  context: RequestContext,
+): Promise<VideoMetadata> {
+  const json = await requestGql(
+    {
+      operationName: "VideoMetadata",
+      query: videoMetadataQuery,
+      variables: {
+        videoID: videoId,
+      },
+    },
+    context,
+  );
+
+  const result = parseGqlResult(videoMetadataSchema, json);
+  const video = result.data.video;
+  if (video === null) {
+    // Twitch reports why the video is null when access is denied
+    const errors = result.errors ?? [];
+    if (errors.length > 0) {
+      throw new VideoRestrictedError(videoId, errors);
+    }
+    throw new VideoNotFoundError(videoId);
+  }
+
+  return video;
+}
+
+/**
+ * Fetch the time window of the source video a clip was cut from
+ * @param slug - Twitch clip slug
+ * @param context - Request settings
+ * @returns Source video ID and the window of the clip in seconds
+ * @throws {HttpError} When HTTP request fails after all retries
+ * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
+ * @throws {ResponseParseError} When response parsing fails
+ * @throws {GraphQLError} When Twitch GraphQL API returns errors
+ * @throws {ClipNotFoundError} When the clip does not exist
+ * @throws {ClipSourceUnavailableError} When the source video is unavailable
+ */
+async function requestClipSource(
+  slug: string,
+  context: RequestContext,
+): Promise<{ videoId: string; window: TimeWindow }> {
+  const json = await requestGql(
+    {
+      operationName: "ClipSource",
+      query: clipSourceQuery,
+      variables: {
+        slug,
+      },
+    },
+    context,
+  );
+
+  const clip = parseGqlResult(clipSourceSchema, json).data.clip;
+  if (clip === null) {
+    throw new ClipNotFoundError(slug);
+  }
+  if (clip.video === null || clip.videoOffsetSeconds === null) {
+    throw new ClipSourceUnavailableError(slug);
+  }
+
+  return {
+    videoId: clip.video.id,
+    window: {
+      start: clip.videoOffsetSeconds,
+      end: clip.videoOffsetSeconds + clip.durationSeconds,
+    },
+  };
+}
+
+/**
+ * Fetch the display information of the global badges and of the badges of a
+ * channel
+ * @param channel - Channel login
+ * @param context - Request settings
+ * @returns Badges, the ones of the channel replacing global ones of the same
+ * set and version
+ * @throws {HttpError} When HTTP request fails after all retries
+ * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
+ * @throws {ResponseParseError} When response parsing fails
+ * @throws {GraphQLError} When Twitch GraphQL API returns errors
+ * @throws {ChannelNotFoundError} When the channel does not exist
+ */
+async function requestChannelBadges(
+  channel: string,
+  context: RequestContext,
+): Promise<BadgeInfo[]> {
+  const json = await requestGql(
+    {
+      operationName: "ChannelBadges",
+      query: channelBadgesQuery,
+      variables: {
+        login: channel,
+      },
+    },
+    context,
+  );
+
+  const { badges, user } = parseGqlResult(channelBadgesSchema, json).data;
+  if (user === null) {
+    throw new ChannelNotFoundError(channel);
+  }
+
+  const result = new Map<string, BadgeInfo>();
+  for (const badge of [...(badges ?? []), ...(user.broadcastBadges ?? [])]) {
+    if (badge !== null) {
+      result.set(`${badge.setID};${badge.version}`, {
+        setId: badge.setID,
+        version: badge.version,
+        title: badge.title,
+        images: {
+          small: badge.image1x,
+          medium: badge.image2x,
+          large: badge.image4x,
+        },
+      });
+    }
+  }
+
+  return [...result.values()];
+}
+
+/**
+ * Probe video length by sampling offsets
+ * @param videoId - Twitch VOD ID
+ * @param context - Request settings
+ * @param probeInterval - Interval between probes in seconds
+ * @returns Estimated video length in seconds
+ * @throws {HttpError} When HTTP request fails after all retries
+ * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
+ * @throws {ResponseParseError} When response parsing fails
+ * @throws {GraphQLError} When Twitch GraphQL API returns errors
+ * @throws {VideoNotFoundError} When the video does not exist
+ * @throws {VideoRestrictedError} When the comments cannot be accessed
+ * @throws {CommentsUnavailableError} When the video provides no comments
+ */
+async function probeVideoLength(
+  videoId: string,
+  context: RequestContext,
+  probeInterval: number = 3600,
+): Promise<number> {
+  const probeOffsets = [0];
+  // Probe every hour for the first 5 hours
+  for (let i = 1; i <= 5; i++) {
+    probeOffsets.push(i * probeInterval);
+  }
+  // Probe every 4 hours up to 48 hours
+  for (let i = 8; i <= 48; i += 4) {
+    probeOffsets.push(i * probeInterval);
+  }
+
+  const probeResults = await Promise.all(
+    probeOffsets.map(async (offset) => {
+      const comments = await fetchComments(
+        videoId,
+        { contentOffsetSeconds: offset },
+        context,
+      );
+
+      return {
+        offset,
+        hasNextPage: comments.pageInfo.hasNextPage,
+        maxOffsetSeconds:
+          comments.edges.at(-1)?.node.contentOffsetSeconds ?? offset,
+      };
+    }),
+  );
+
+  // Find the first probe where hasNextPage is false
+  const endProbe = probeResults.find((r) => !r.hasNextPage);
+  if (endProbe) {
+    return endProbe.maxOffsetSeconds;
+  }
+
+  // If all probes have hasNextPage = true, estimate as double the last offset
+  const lastProbe = probeResults[probeResults.length - 1];
+  if (lastProbe) {
+    return lastProbe.maxOffsetSeconds * 2;
+  }
+
+  // Fallback to 0 if no results
+  return 0;
+}
+
+/**
+ * Get the video length from its metadata, falling back to probing
+ * when the metadata is unavailable
+ * @param videoId - Twitch VOD ID
+ * @param context - Request settings
+ * @returns Video length in seconds
+ * @throws {HttpError} When HTTP request fails after all retries
+ * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
+ * @throws {ResponseParseError} When response parsing fails
+ * @throws {GraphQLError} When Twitch GraphQL API returns errors
+ * @throws {VideoNotFoundError} When the video does not exist
+ * @throws {VideoRestrictedError} When the comments cannot be accessed
+ * @throws {CommentsUnavailableError} When the video provides no comments
+ */
+async function resolveVideoLength(
+  videoId: string,
+  context: RequestContext,
+): Promise<number> {
+  try {
+    const metadata = await requestVideoMetadata(videoId, context);
+    if (metadata.lengthSeconds > 0) {
+      return metadata.lengthSeconds;
+    }
+  } catch (error) {
+    if (
+      error instanceof AbortError ||
+      error instanceof VideoNotFoundError ||
+      error instanceof VideoRestrictedError
+    ) {
+      throw error;
+    }
+    // Fall back to probing below
+  }
+
+  return probeVideoLength(videoId, context);
+}
+
+/**
+ * Time range of a video to fetch, in seconds
+ */
+type TimeWindow = {
+  /**
+   * Start offset in seconds (inclusive)
+   */
+  start: number;
+  /**
+   * End offset in seconds (exclusive), Infinity if the video length is unknown
+   */
+  end: number;
+};
+
+/**
+ * Resolve the start of the time window to fetch
+ * @param reference - Video ID, and the start offset given by its URL
+ * @param options - Fetch options, whose start takes precedence over the URL
+ * @returns Start offset in seconds
+ * @throws {InvalidInputError} When startSeconds is invalid
+ */
+function resolveStart(
+  reference: VideoReference,
+  options?: FetchAllMessagesOptions,
+): number {
+  return options?.startSeconds !== undefined
+    ? parseOffset(options.startSeconds)
+    : (reference.startSeconds ?? 0);
+}
+
+/**
+ * Resolve the time window to fetch, looking up the video length only when
+ * the end of the window is not given
+ * @param reference - Video ID, and the start offset given by its URL
+ * @param context - Request settings
+ * @param options - Fetch options, whose start takes precedence over the URL
+ * @returns Time window in seconds
+ * @throws {InvalidInputError} When startSeconds or endSeconds is invalid, or
+ * the window is empty
+ * @throws {HttpError} When HTTP request fails after all retries
+ * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
+ * @throws {ResponseParseError} When response parsing fails
+ * @throws {GraphQLError} When Twitch GraphQL API returns errors
+ * @throws {VideoNotFoundError} When the video does not exist
+ * @throws {VideoRestrictedError} When the comments cannot be accessed
+ * @throws {CommentsUnavailableError} When the video provides no comments
+ */
+async function resolveWindow(
+  reference: VideoReference,
+  context: RequestContext,
+  options?: FetchAllMessagesOptions,
+): Promise<TimeWindow> {
+  const start = resolveStart(reference, options);
+  const endSeconds =
+    options?.endSeconds !== undefined
+      ? parseOffset(options.endSeconds)
+      : Infinity;
+
+  let end = endSeconds;
+  if (
+    options?.endSeconds === undefined ||
+    options.lengthSeconds !== undefined
+  ) {
+    let lengthSeconds = options?.lengthSeconds;
+    if (lengthSeconds === undefined) {
+      context.onEvent?.({ type: "phase", phase: "probe" });
+      lengthSeconds = await resolveVideoLength(reference.videoId, context);
+    }
+    // A length of 0 means that the video length is unknown
+    end =
+      lengthSeconds === 0 ? endSeconds : Math.min(lengthSeconds, endSeconds);
+  }
+
+  if (start >= end) {
+    throw new InvalidInputError(
+      end === endSeconds
+        ? `startSeconds (${start}) must be before endSeconds (${end})`
+        : `startSeconds (${start}) must be before the end of the video (${end})`,
+      String(options?.startSeconds ?? start),
+    );
+  }
+
+  return { start, end };
+}
+
+/**
+ * Report the skipped edges of a page that belong to a chunk.
+ * Edges whose raw offset is outside the chunk are left to the chunk they
+ * belong to, and edges already reported through their cursor are not
+ * reported again.
+ * @param skippedEdges - Edges skipped in lenient parse mode
+ * @param chunk - Chunk the page was fetched for
+ * @param context - Request settings
+ */
+function reportSkippedEdges(
+  skippedEdges: SkippedEdge[],
+  chunk: Chunk,
+  context: RequestContext,
+): void {
+  if (context.onSkippedEdge === undefined) {
+    return;
+  }
+
+  for (const skipped of skippedEdges) {
+    const { edge } = skipped;
+    const raw = typeof edge === "object" && edge !== null ? edge : {};
+    const node: unknown = "node" in raw ? raw.node : undefined;
+    const offset =
+      typeof node === "object" &&
+      node !== null &&
+      "contentOffsetSeconds" in node &&
+      typeof node.contentOffsetSeconds === "number"
+        ? node.contentOffsetSeconds
+        : undefined;
+    if (offset !== undefined && (offset < chunk.start || offset >= chunk.end)) {
+      continue;
+    }
+
+    const cursor =
+      "cursor" in raw && typeof raw.cursor === "string"
+        ? raw.cursor
+        : undefined;
+    if (cursor !== undefined) {
+      if (context.skippedCursors.has(cursor)) {
+        continue;
+      }
+      context.skippedCursors.add(cursor);
+    }
+
+    context.onSkippedEdge(skipped);
+  }
+}
+
+/**
+ * Fetch messages of a chunk, from its start until its end or the end of the video.
+ * The first page is requested by offset, subsequent pages follow edge cursors.
+ * The end of the chunk is read again for each page, so it can be shrunk while
+ * fetching, and the chunk is updated with the progress made.
+ * @param videoId - Twitch VOD ID
+ * @param context - Request settings
+ * @param chunk - Chunk to fetch
+ * @param onPage - Called each time a page is followed by another one
+ * @returns Array of comment nodes
+ */
+async function fetchChunkMessages(
+  videoId: string,
+  context: RequestContext,
+  chunk: Chunk,
+  onPage?: () => void,
+): Promise<Node[]> {
+  const nodes: Node[] = [];
+  let position: CommentsPosition = { contentOffsetSeconds: chunk.start };
+
+  while (true) {
+    throwIfAborted(context.signal);
+
+    const comments = await fetchComments(videoId, position, context);
+    context.stats.pages++;
+
+    reportSkippedEdges(comments.skippedEdges, chunk, context);
+
+    let endPassed = false;
+    for (const edge of comments.edges) {
+      // Do not include comments beyond the end of the chunk
+      if (edge.node.contentOffsetSeconds >= chunk.end) {
+        endPassed = true;
+        break;
+      }
+      // The first page may start slightly before the requested offset
+      if (edge.node.contentOffsetSeconds < chunk.start) {
+        continue;
+      }
+      nodes.push(edge.node);
+      chunk.offset = edge.node.contentOffsetSeconds;
+      chunk.count++;
+    }
+
+    context.onPage?.();
+    if (endPassed) {
+      return nodes;
+    }
+
+    if (!comments.pageInfo.hasNextPage) {
+      chunk.endReached = true;
+      break;
+    }
+    if (comments.endCursor === null) {
+      // More pages exist, but there is no cursor to follow them
+      chunk.stoppedEarly = true;
+      break;
+    }
+
+    position = { cursor: comments.endCursor };
+    chunk.pages++;
+    onPage?.();
+  }
+
+  return nodes;
+}
+
+/**
+ * Progress information for fetchAllMessages
+ */
+export type FetchAllMessagesProgress = {
+  /**
+   * Total number of chunks, which grows when chunks are split while fetching
+   */
+  totalChunks: number;
+  /**
+   * Number of completed chunks
+   */
+  completedChunks: number;
+  /**
+   * Current progress percentage (0-100), based on the time range covered by
+   * completed chunks
+   */
+  percentage: number;
+};
+
+/**
+ * Phase of a fetch:
+ * - "client-id": retrieving the Client ID
+ * - "probe": resolving the video length, from the metadata or by probing
+ * - "fetch": fetching the chunks
+ * - "merge": merging the chunks into the result
+ */
+export type FetchPhase = "client-id" | "probe" | "fetch" | "merge";
+
+/**
+ * Progress of a single chunk
+ */
+export type FetchChunkProgress = {
+  /**
+   * Start offset in seconds (inclusive)
+   */
+  start: number;
+  /**
+   * End offset in seconds (exclusive)
+   */
+  end: number;
+  /**
+   * Highest offset covered so far, in seconds
+   */
+  offset: number;
+  /**
+   * Number of messages fetched so far
+   */
+  messages: number;
+  /**
+   * Whether the chunk is completed
+   */
+  completed: boolean;
+};
+
+/**
+ * Progress reported after each fetched page
+ */
+export type FetchPageProgress = {
+  /**
+   * Number of messages fetched so far
+   */
+  messages: number;
+  /**
+   * Number of pages fetched so far
+   */
+  pages: number;
+  /**
+   * Number of HTTP requests made so far, including retries
+   */
+  requests: number;
+  /**
+   * Number of bytes of response bodies received so far, after decompression
+   */
+  bytes: number;
+  /**
+   * Progress of each chunk, in order of start offset
+   */
+  chunks: FetchChunkProgress[];
+  /**
+   * Progress percentage (0-100), based on the time range covered so far.
+   * Stays at 0 when the end of the video is unknown.
+   */
+  percentage: number;
+  /**
+   * Estimated remaining time in seconds, null until some time range is covered
+   * or when the end of the video is unknown
+   */
+  etaSeconds: number | null;
+};
+
+/**
+ * Lifecycle event of a fetch
+ */
+export type FetchAllMessagesEvent =
+  | {
+      type: "phase";
+      phase: FetchPhase;
+    }
+  | ({ type: "page" } & FetchPageProgress)
+  | ({ type: "retry" } & RetryAttempt)
+  | {
+      type: "error";
+      error: unknown;
+    };
+
+/**
+ * Options for fetchAllMessages
+ */
+export type FetchAllMessagesOptions = RequestOptions &
+  NormalizeOptions & {
+    /**
+     * Maximum number of requests in flight
+     * @default 128
+     */
+    concurrency?: number;
+    /**
+     * Number of chunks the video is initially split into.
+     * While fetching, chunks with many remaining messages are split further so
+     * that no request slot stays idle.
+     * @default concurrency
+     */
+    chunkCount?: number;
+    /**
+     * Maximum number of pages requested together in a single GraphQL request.
+     * Pages requested by the probe phase and by chunks fetched at the same time
+     * are batched, which reduces the number of requests.
+     * @default 1
+     */
+    batchSize?: number;
+    /**
+     * Progress callback
+     */
+    onProgress?: (progress: FetchAllMessagesProgress) => void;
+    /**
+     * Called with each phase change, fetched page, retry and error
+     */
+    onEvent?: (event: FetchAllMessagesEvent) => void;
+    /**
+     * Called with each edge skipped in lenient parse mode
+     */
+    onSkippedEdge?: (skipped: SkippedEdge) => void;
+    /**
+     * Video length in seconds (optional).
+     * If provided, skips the metadata lookup and probe phase.
+     * If not provided, it is read from the video metadata, or estimated by
+     * probing when the metadata is unavailable.
+     */
+    lengthSeconds?: number;
+    /**
+     * Start of the time window to fetch, in seconds or as a string such as
+     * "1h23m45s" or "01:23:45"
+     * @default The `t` parameter of the video URL, or 0
+     */
+    startSeconds?: Offset;
+    /**
+     * End of the time window to fetch (exclusive), in seconds or as a string
+     * such as "1h23m45s" or "01:23:45".
+     * If provided, the video length is not needed, so the metadata lookup and
+     * probe phase are skipped.
+     * @default The video length
+     */
+    endSeconds?: Offset;
+    /**
+     * Store recording each completed chunk.
+     * Chunks already recorded for the video are reused instead of fetched again,
+     * so that an interrupted run can be resumed.
+     */
+    checkpoint?: CheckpointStore;
+  };
+
+/**
+ * Create a chunk running until the end of the video, for videos of unknown length
+ * @param start - Start offset in seconds
+ * @returns Chunk from the start offset to the end of the video
+ */
+function unboundedChunk(start: number): Chunk {
+  return {
+    start,
+    end: Infinity,
+    offset: start,
+    count: 0,
+    pages: 0,
+    endReached: false,
+    stoppedEarly: false,
+  };
+}
+
+/**
+ * Get the progress of a chunk fetched until the end of the video
+ * @param chunk - Unbounded chunk
+ * @returns Progress of the chunk
+ */
+function unboundedChunkProgress(chunk: Chunk): FetchChunkProgress {
+  return {
+    start: chunk.start,
+    end: chunk.end,
+    offset: chunk.offset,
+    messages: chunk.count,
+    completed: false,
+  };
+}
+
+/**
+ * Create the callback emitting a page event after each fetched page
+ * @param context - Request settings
+ * @param window - Time window being fetched
+ * @param chunks - Get the progress of every chunk
+ * @returns Callback to call after each page, or undefined without listener
+ */
+function createPageReporter(
+  context: RequestContext,
+  window: TimeWindow,
+  chunks: () => FetchChunkProgress[],
+): (() => void) | undefined {
+  const onEvent = context.onEvent;
+  if (onEvent === undefined) {
+    return undefined;
+  }
+
+  const startedAt = Date.now();
+  const totalSeconds = window.end - window.start;
+
+  return () => {
+    const progress = chunks();
+    let messages = 0;
+    let coveredSeconds = 0;
+    for (const chunk of progress) {
+      messages += chunk.messages;
+      coveredSeconds += chunk.offset - chunk.start;
+    }
+
+    const known = Number.isFinite(totalSeconds);
+    const elapsedSeconds = (Date.now() - startedAt) / 1000;
+
+    onEvent({
+      type: "page",
+      messages,
+      pages: context.stats.pages,
+      requests: context.stats.requests,
+      bytes: context.stats.bytes,
+      chunks: progress,
+      percentage: !known
+        ? 0
+        : totalSeconds <= 0
+          ? 100
+          : Math.round((coveredSeconds / totalSeconds) * 100),
+      etaSeconds:
+        known && coveredSeconds > 0
+          ? (elapsedSeconds * (totalSeconds - coveredSeconds)) / coveredSeconds
+          : null,
+    });
+  };
+}
+
+/**
+ * Time range of a video planned before fetching
+ */
+type PlannedChunk = {
+  start: number;
+  end: number;
+  /**
+   * Nodes restored from a checkpoint, if the chunk does not need fetching
+   */
+  restored?: Node[];
+};
+
+/**
+ * Split a time window into equal-length chunks
+ * @param window - Time window in seconds
+ * @param chunkCount - Number of chunks
+ * @returns Chunks in ascending order of start offset
+ */
+function createChunks(window: TimeWindow, chunkCount: number): PlannedChunk[] {
+  const chunkSize = Math.ceil((window.end - window.start) / chunkCount);
+  const chunks: PlannedChunk[] = [];
+
+  for (let i = 0; i < chunkCount; i++) {
+    const start = window.start + i * chunkSize;
+    const end = Math.min(start + chunkSize, window.end);
+    if (start < window.end) {
+      chunks.push({ start, end });
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Remove the time ranges already covered from a chunk
+ * @param chunk - Chunk to fetch
+ * @param covered - Time ranges already covered
+ * @returns Remaining parts of the chunk
+ */
+function subtractRanges(
+  chunk: PlannedChunk,
+  covered: Array<{ start: number; end: number }>,
+): PlannedChunk[] {
+  let remaining: PlannedChunk[] = [{ start: chunk.start, end: chunk.end }];
+
+  for (const range of covered) {
+    remaining = remaining.flatMap((part) => {
+      if (range.end <= part.start || range.start >= part.end) {
+        return [part];
+      }
+      const parts: PlannedChunk[] = [];
+      if (range.start > part.start) {
+        parts.push({ start: part.start, end: range.start });
+      }
+      if (range.end < part.end) {
+        parts.push({ start: range.end, end: part.end });
+      }
+      return parts;
+    });
+  }
+
+  return remaining;
+}
+
+/**
+ * Plan the chunks of a time window, reusing the chunks recorded in a checkpoint
+ * @param videoId - Twitch VOD ID
+ * @param window - Time window in seconds
+ * @param chunkCount - Number of chunks to split the window into
+ * @param checkpoint - Checkpoint store
+ * @returns Chunks in ascending order of start offset
+ */
+async function planChunks(
+  videoId: string,
+  window: TimeWindow,
+  chunkCount: number,
+  checkpoint?: CheckpointStore,
+): Promise<PlannedChunk[]> {
+  const chunks = createChunks(window, chunkCount);
+
+  if (checkpoint === undefined) {
+    return chunks;
+  }
+
+  // Restore the parts of the recorded chunks inside the window
+  const stored = (await checkpoint.load(videoId))
+    .filter((chunk) => chunk.start < window.end && chunk.end > window.start)
+    .map((chunk) => ({
+      start: Math.max(chunk.start, window.start),
+      end: Math.min(chunk.end, window.end),
+      nodes: chunk.nodes.filter(
+        (node) =>
+          node.contentOffsetSeconds >= window.start &&
+          node.contentOffsetSeconds < window.end,
+      ),
+    }));
+  const planned: PlannedChunk[] = stored.map((chunk) => ({
+    start: chunk.start,
+    end: chunk.end,
+    restored: chunk.nodes,
+  }));
+
+  for (const chunk of chunks) {
+    planned.push(...subtractRanges(chunk, stored));
+  }
+
+  return planned.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Plan the chunks of a time window and create a scheduler to fetch them
+ * @param videoId - Twitch VOD ID
+ * @param context - Request settings
+ * @param window - Time window in seconds
+ * @param concurrency - Number of chunks fetched at the same time
+ * @param options - Fetch options
+ * @param lookahead - Maximum number of chunks started ahead of the chunk being
+ * consumed, unlimited if undefined
+ * @returns Scheduler ready to run
+ */
+async function createScheduler(
+  videoId: string,
+  context: RequestContext,
+  window: TimeWindow,
+  concurrency: number,
+  options?: FetchAllMessagesOptions,
+  lookahead?: number,
+): Promise<ChunkScheduler> {
+  const checkpoint = options?.checkpoint;
+  const chunks = await planChunks(
+    videoId,
+    window,
+    options?.chunkCount ?? concurrency,
+    checkpoint,
+  );
+
+  const scheduler = new ChunkScheduler({
+    concurrency,
+    fetchChunk: (chunk, onPage) =>
+      fetchChunkMessages(videoId, context, chunk, onPage),
+    saveChunk:
+      checkpoint &&
+      ((chunk, nodes) =>
+        checkpoint.save(videoId, {
+          start: chunk.start,
+          // The rest of a chunk that stopped early is fetched again on resume
+          end: chunk.stoppedEarly ? chunk.offset : chunk.end,
+          nodes,
+        })),
+    onProgress: options?.onProgress,
+    lookahead,
+  });
+
+  for (const chunk of chunks) {
+    scheduler.add(chunk.start, chunk.end, chunk.restored);
+  }
+
+  return scheduler;
+}
+
+/**
+ * Fetch the chunks of a time window in parallel, yielding their nodes in order
+ * @param videoId - Twitch VOD ID
+ * @param context - Request settings
+ * @param window - Time window to fetch
+ * @param concurrency - Number of chunks fetched at the same time
+ * @param options - Fetch options
+ * @returns Async iterable of messages, sorted by contentOffsetSeconds
+ * @throws {HttpError} When HTTP request fails after all retries
+ * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
+ * @throws {ResponseParseError} When response parsing fails
+ * @throws {GraphQLError} When Twitch GraphQL API returns errors
+ * @throws {VideoNotFoundError} When the video does not exist
+ * @throws {VideoRestrictedError} When the comments cannot be accessed
+ * @throws {CommentsUnavailableError} When the video provides no comments
+ * @throws {AbortError} When aborted through the signal of the context
+ */
+async function* streamWindow(
+  videoId: string,
+  context: RequestContext,
+  window: TimeWindow,
+  concurrency: number,
+  options?: FetchAllMessagesOptions,
+): AsyncGenerator<Node> {
+  context.onEvent?.({ type: "phase", phase: "fetch" });
+
+  if (window.end === Infinity) {
+    const chunk = unboundedChunk(window.start);
+    context.onPage = createPageReporter(context, window, () => [
+      unboundedChunkProgress(chunk),
+    ]);
+    yield* await fetchChunkMessages(videoId, context, chunk);
+    return;
+  }
+
+  const scheduler = await createScheduler(
+    videoId,
+    context,
+    window,
+    concurrency,
+    options,
+    concurrency,
+  );
+  context.onPage = createPageReporter(context, window, () =>
+    scheduler.progress(),
+  );
+
+  // Stop the requests in flight when the consumer stops iterating
+  const signal = context.signal;
+  const controller = new AbortController();
+  const abort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    abort();
+  } else {
+    signal?.addEventListener("abort", abort, { once: true });
+  }
+  context.signal = controller.signal;
+
+  try {
+    // Failures are surfaced when the failed chunk is reached
+    scheduler.run().catch(() => {});
+
+    // Yield chunks in order, skipping nodes already yielded by the previous one
+    let previousIds = new Set<string>();
+    for await (const nodes of scheduler.results()) {
+      const ids = new Set<string>();
+      for (const node of nodes) {
+        ids.add(node.id);
+        if (!previousIds.has(node.id)) {
+          yield node;
+        }
+      }
+      previousIds = ids;
+    }
+
+    // Requests made after the stream, such as polls, use the signal of the
+    // call again. When the stream stops early, running chunks keep reading the
+    // aborted signal and stop at their next page.
+    context.signal = signal;
+  } finally {
+    signal?.removeEventListener("abort", abort);
+    scheduler.cancel(new AbortError("The stream was closed"));
+    controller.abort();
+  }
+}
+
+/**
+ * Completeness and integrity report of a fetchAllMessages run
+ */
+export type FetchAllMessagesReport = {
+  /**
+   * Start of the fetched time window in seconds
+   */
+  startSeconds: number;
+  /**
+   * End of the fetched time window in seconds, null if the video length is
+   * unknown
+   */
+  endSeconds: number | null;
+  /**
+   * Merged time ranges covered by the fetched chunks, in seconds.
+   * Chunks restored from a checkpoint count as covered.
+   */
+  coveredRanges: Array<{ start: number; end: number }>;
+  /**
+   * Time ranges where a chunk reported no next page although a later chunk
+   * has messages, so messages may be missing
+   */
+  gaps: Array<{ start: number; end: number }>;
+  /**
+   * Messages returned by more than one chunk, with the number of times they
+   * were seen
+   */
+  duplicates: Array<{ id: string; count: number }>;
+  /**
+   * Number of comment pages fetched for chunks
+   */
+  pageCount: number;
+  /**
+   * Number of HTTP requests made, including retries
+   */
+  requestCount: number;
+  /**
+   * Whether the last page of the window had `hasNextPage: false`.
+   * When false, there are messages after the end of the window, which may
+   * have been left out if the window ends at the video length. It is also
+   * false when the last chunk was restored from a checkpoint.
+   */
+  endReached: boolean;
+  /**
+   * Network metrics of the call
+   */
+  metrics: FetchMetrics;
+};
+
+/**
+ * Network metrics of a call
+ */
+export type FetchMetrics = {
+  /**
+   * Number of HTTP requests made, including retries
+   */
+  requests: number;
+  /**
+   * Number of retried requests
+   */
+  retries: number;
+  /**
+   * Number of bytes of response bodies received, after decompression
+   */
+  bytes: number;
+  /**
+   * Median and 95th percentile of request latencies in milliseconds, null
+   * without requests
+   */
+  latencyMs: { p50: number; p95: number } | null;
+  /**
+   * Duration of the call in seconds
+   */
+  durationSeconds: number;
+  /**
+   * Number of unique messages fetched per second of the call
+   */
+  messagesPerSecond: number;
+};
+
+/**
+ * Result type for fetchAllMessagesWithReport
+ */
+export type FetchAllMessagesWithReportResult<M = Node> = {
+  /**
+   * Array of all messages, sorted by contentOffsetSeconds
+   */
+  messages: M[];
+  /**
+   * Completeness and integrity report
+   */
+  report: FetchAllMessagesReport;
+};
+
+/**
+ * Progress of fetchManyVideos
+ */
+export type FetchManyVideosProgress = {
+  /**
+   * Video the update is about, as given to fetchManyVideos
+   */
+  video: string;
+  /**
+   * Progress of that video
+   */
+  videoProgress: FetchAllMessagesProgress;
+  /**
+   * Number of videos fetched or failed so far
+   */
+  settledVideos: number;
+  /**
+   * Total number of videos
+   */
+  totalVideos: number;
+  /**
+   * Overall progress percentage (0-100), averaged over every video
+   */
+  percentage: number;
+};
+
+/**
+ * Lifecycle event of a video of fetchManyVideos
+ */
+export type FetchManyVideosEvent = FetchAllMessagesEvent & {
+  /**
+   * Video the event is about, as given to fetchManyVideos
+   */
+  video: string;
+};
+
+/**
+ * Comment edge of a video of fetchManyVideos skipped in lenient parse mode
+ */
+export type FetchManyVideosSkippedEdge = SkippedEdge & {
+  /**
+   * Video the edge belongs to, as given to fetchManyVideos
+   */
+  video: string;
+};
+
+/**
+ * Options for fetchManyVideos
+ */
+export type FetchManyVideosOptions = Omit<
+  FetchAllMessagesOptions,
+  | "onProgress"
+  | "onEvent"
+  | "onSkippedEdge"
+  | "lengthSeconds"
+  | "startSeconds"
+  | "endSeconds"
+> & {
+  /**
+   * Maximum number of requests in flight, shared by every video
+   * @default 128
+   */
+  concurrency?: number;
+  /**
+   * Number of videos fetched at the same time
+   * @default 4
+   */
+  videoConcurrency?: number;
+  /**
+   * Progress callback, called each time a chunk of a video completes and each
+   * time a video settles
+   */
+  onProgress?: (progress: FetchManyVideosProgress) => void;
+  /**
+   * Called with each phase change, fetched page, retry and error of every
+   * video
+   */
+  onEvent?: (event: FetchManyVideosEvent) => void;
+  /**
+   * Called with each edge skipped in lenient parse mode, in every video
+   */
+  onSkippedEdge?: (skipped: FetchManyVideosSkippedEdge) => void;
+};
+
+/**
+ * Result of a single video of fetchManyVideos: its messages and report, or
+ * the error it failed with
+ */
+export type FetchManyVideosResult<M = Node> = PromiseSettledResult<
+  FetchAllMessagesWithReportResult<M>
+> & {
+  /**
+   * Video as given to fetchManyVideos
+   */
+  video: string;
+};
+
+/**
+ * Create the report of a fetchAllMessages run
+ * @param chunks - Completed chunks in order of start offset
+ * @param results - Nodes of each chunk
+ * @param stats - Counters of the work done
+ * @param window - Fetched time window in seconds
+ * @returns Completeness and integrity report
+ */
+function createReport(
+  chunks: Chunk[],
+  results: Node[][],
+  stats: RequestContext["stats"],
+  window: TimeWindow,
+): FetchAllMessagesReport {
+  const counts = new Map<string, number>();
+  for (const node of results.flat()) {
+    counts.set(node.id, (counts.get(node.id) ?? 0) + 1);
+  }
+  const duplicates = Array.from(counts)
+    .filter(([, count]) => count > 1)
+    .map(([id, count]) => ({ id, count }));
+
+  const coveredRanges: Array<{ start: number; end: number }> = [];
+  const gaps: Array<{ start: number; end: number }> = [];
+  chunks.forEach((chunk, index) => {
+    let end = chunk.end === Infinity ? chunk.offset : chunk.end;
+
+    // Twitch reported the end of the video, yet a later chunk has messages
+    const laterMessages = results
+      .slice(index + 1)
+      .some((nodes) => nodes.length > 0);
+    // The chunk stopped before its end
+    const stoppedEarly =
+      chunk.stoppedEarly || (chunk.endReached && laterMessages);
+    if (stoppedEarly && chunk.offset < chunk.end && chunk.end !== Infinity) {
+      gaps.push({ start: chunk.offset, end: chunk.end });
+      end = chunk.offset;
+    }
+
+    const last = coveredRanges.at(-1);
+    if (last !== undefined && last.end === chunk.start) {
+      last.end = end;
+    } else {
+      coveredRanges.push({ start: chunk.start, end });
+    }
+  });
+
+  return {
+    startSeconds: window.start,
+    endSeconds: window.end === Infinity ? null : window.end,
+    coveredRanges,
+    gaps,
+    duplicates,
+    pageCount: stats.pages,
+    requestCount: stats.requests,
+    endReached: chunks.at(-1)?.endReached ?? false,
+    metrics: createMetrics(stats, counts.size),
+  };
+}
+
+/**
+ * Summarize the network metrics of a call
+ * @param stats - Counters of the work done during the call
+ * @param messageCount - Number of unique messages fetched
+ * @returns Network metrics
+ */
+function createMetrics(
+  stats: RequestContext["stats"],
+  messageCount: number,
+): FetchMetrics {
+  const latencies = [...stats.latenciesMs].sort((a, b) => a - b);
+  // Nearest-rank percentile
+  const percentile = (p: number) =>
+    latencies[Math.max(0, Math.ceil((p / 100) * latencies.length) - 1)]!;
+  const durationSeconds = (Date.now() - stats.startedAt) / 1000;
+
+  return {
+    requests: stats.requests,
+    retries: stats.retries,
+    bytes: stats.bytes,
+    latencyMs:
+      latencies.length === 0
+        ? null
+        : { p50: percentile(50), p95: percentile(95) },
+    durationSeconds,
+    messagesPerSecond:
+      durationSeconds === 0 ? 0 : messageCount / durationSeconds,
+  };
+}
+
+/**
+ * Result type for fetchMessages
+ */
+export type FetchMessagesResult<M = Node> = {
+  /**
+   * Array of messages
+   */
+  nodes: M[];
+  /**
+   * Cursor to pass as `cursor` to fetch the next page, or null if there is none
+   */
+  nextCursor: string | null;
+  /**
+   * Whether there are more comments after this page
+   */
+  hasNextPage: boolean;
+  /**
+   * Whether there are comments before this page
+   */
+  hasPreviousPage: boolean;
+  /**
+   * Edges skipped in lenient parse mode, empty in strict mode
+   */
+  skippedEdges: SkippedEdge[];
+};
+
+/**
+ * Options for fetchMessages
+ */
+export type FetchMessagesOptions = RequestOptions &
+  NormalizeOptions & {
+    /**
+     * Content offset, in seconds or as a string such as "1h23m45s" or "01:23:45"
+     * @default The `t` parameter of the video URL, or 0
+     */
+    contentOffsetSeconds?: Offset;
+    /**
+     * Cursor returned as `nextCursor` by a previous call.
+     * Takes precedence over `contentOffsetSeconds` when provided.
+     */
+    cursor?: string;
+  };
+
+/**
+ * Options for fetchClipMessages.
+ * The time window is the one of the clip, and `chunkCount` defaults to 1
+ * since clips last at most a minute.
+ */
+export type FetchClipMessagesOptions = Omit<
+  FetchAllMessagesOptions,
+  "lengthSeconds" | "startSeconds" | "endSeconds"
+>;
+
+/**
+ * Options for followMessages.
+ * Pages of a growing video change, so they are never cached or checkpointed.
+ */
+export type FollowMessagesOptions = Omit<
+  FetchAllMessagesOptions,
+  "lengthSeconds" | "endSeconds" | "checkpoint" | "cache"
+> & {
+  /**
+   * Interval between polls for new messages in milliseconds.
+   * Following ends at the first poll after which the video length has not
+   * grown.
+   * @default 30000
+   */
+  pollIntervalMs?: number;
+};
+
+/**
+ * Options for TwitchVodClient
+ */
+export type TwitchVodClientOptions = {
+  /**
+   * Twitch Client ID.
+   * If not provided, it is scraped from the video page on first use and cached.
+   */
+  clientId?: string;
+  /**
+   * Maximum number of requests in flight, shared by every call of the client
+   * that does not specify its own concurrency
+   * @default 128
+   */
+  concurrency?: number;
+  /**
+   * Default maximum number of pages requested together in a single GraphQL
+   * request by fetchAllMessages and streamAllMessages
+   * @default 1
+   */
+  batchSize?: number;
+  /**
+   * Default retry policy for transient HTTP and network failures
+   */
+  retry?: RetryPolicy;
+  /**
+   * Default fetch implementation and endpoint URLs
+   */
+  transport?: Transport;
+  /**
+   * Default options for the persisted comments query
+   */
+  persistedQuery?: PersistedQueryOptions;
+  /**
+   * Default OAuth token sent with GraphQL requests
+   */
+  authToken?: AuthToken;
+  /**
+   * Default validation of comment edges
+   */
+  parseMode?: ParseMode;
+  /**
+   * Default cache of comment pages and of the scraped Client ID
+   */
+  cache?: CacheOptions;
+  /**
+   * Default callbacks around each HTTP request
+   */
+  hooks?: RequestHooks;
+};
+
+/**
+ * Client for fetching Twitch VOD messages.
+ * Configuration is shared by every call, and a scraped Client ID is cached for
+ * the lifetime of the client.
+ */
+export class TwitchVodClient {
+  private readonly options: TwitchVodClientOptions;
+  private readonly pool: RequestPool;
+  private clientId: Promise<string> | undefined;
+
+  constructor(options?: TwitchVodClientOptions) {
+    this.options = options ?? {};
+    this.pool = new RequestPool(this.options.concurrency ?? 128);
+  }
+
+  /**
+   * Fetch messages from a video with content offset or cursor
+   * @param video - Twitch VOD ID or URL
+   * @param options - Fetch options, overriding the client options
+   * @returns Result with messages and pagination info
+   * @throws {InvalidInputError} When the video ID, URL or an offset is invalid
+   * @throws {HttpError} When HTTP request fails after all retries
+   * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
+   * @throws {ResponseParseError} When response parsing fails
+   * @throws {GraphQLError} When Twitch GraphQL API returns errors
+   * @throws {VideoNotFoundError} When the video does not exist
+   * @throws {VideoRestrictedError} When the comments cannot be accessed
+   * @throws {CommentsUnavailableError} When the video provides no comments
+   * @throws {ClientIdRetrievalError} When Client ID retrieval fails
+   * @throws {AbortError} When aborted through options.signal
+   */
+  async fetchMessages<N extends boolean = false>(
+    video: string,
+    options?: FetchMessagesOptions & NormalizeOptions<N>,
+  ): Promise<FetchMessagesResult<MessageOf<N>>> {
+    const { videoId, startSeconds } = parseVideoReference(video);
+    const position: CommentsPosition =
+      options?.cursor !== undefined
+        ? { cursor: options.cursor }
+        : {
+            contentOffsetSeconds:
+              options?.contentOffsetSeconds !== undefined
+                ? parseOffset(options.contentOffsetSeconds)
+                : (startSeconds ?? 0),
+          };
+    const context = this.createRequestContext({ videoId }, options);
 
-  if (!res.ok) {
-    throw new HttpError(res.status, url);
+    const comments = await fetchComments(videoId, position, context);
+
+    const nodes = comments.edges.map((x) => x.node);
+
+    return {
+      nodes: normalizeMessages(nodes, options?.normalize),
+      nextCursor: comments.pageInfo.hasNextPage ? comments.endCursor : null,
+      hasNextPage: comments.pageInfo.hasNextPage,
+      hasPreviousPage: comments.pageInfo.hasPreviousPage,
+      skippedEdges: comments.skippedEdges,
+    };
   }
 
-  const html = await res.text();
+  /**
+   * Fetch metadata of a video
+   * @param video - Twitch VOD ID or URL
+   * @param options - Request options, overriding the client options
+   * @returns Video metadata
+   * @throws {InvalidInputError} When the video ID, URL or an offset is invalid
+   * @throws {HttpError} When HTTP request fails after all retries
+   * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
+   * @throws {ResponseParseError} When response parsing fails
+   * @throws {GraphQLError} When Twitch GraphQL API returns errors
+   * @throws {VideoNotFoundError} When the video does not exist
+   * @throws {VideoRestrictedError} When the video cannot be accessed
+   * @throws {ClientIdRetrievalError} When Client ID retrieval fails
+   * @throws {AbortError} When aborted through options.signal
+   */
+  async fetchVideoMetadata(
+    video: string,
+    options?: RequestOptions,
+  ): Promise<VideoMetadata> {
+    const { videoId } = parseVideoReference(video);
+    const context = this.createRequestContext({ videoId }, options);
+    return requestVideoMetadata(videoId, context);
+  }
 
-  const search = 'clientId="';
-  const searchIndex = html.indexOf(search);
+  /**
+   * Fetch all messages from a video in parallel
+   * @param video - Twitch VOD ID or URL
+   * @param options - Fetch options, overriding the client options
+   * @returns Array of all messages, sorted by contentOffsetSeconds
+   * @throws {InvalidInputError} When the video ID, URL or an offset is invalid
+   * @throws {HttpError} When HTTP request fails after all retries
+   * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
+   * @throws {ResponseParseError} When response parsing fails
+   * @throws {GraphQLError} When Twitch GraphQL API returns errors
+   * @throws {VideoNotFoundError} When the video does not exist
+   * @throws {VideoRestrictedError} When the comments cannot be accessed
+   * @throws {CommentsUnavailableError} When the video provides no comments
+   * @throws {ClientIdRetrievalError} When Client ID retrieval fails
+   * @throws {AbortError} When aborted through options.signal
+   */
+  async fetchAllMessages<N extends boolean = false>(
+    video: string,
+    options?: FetchAllMessagesOptions & NormalizeOptions<N>,
+  ): Promise<Array<MessageOf<N>>> {
+    const { messages } = await this.fetchAllMessagesWithReport(video, options);
+    return messages;
+  }
 
-  if (searchIndex === -1) {
-    throw new ClientIdRetrievalError(
-      `Failed to find client ID in HTML for video ${videoId}`,
-    );
+  /**
+   * Fetch all messages from a video in parallel, along with a report of the
+   * completeness and integrity of the result
+   * @param video - Twitch VOD ID or URL
+   * @param options - Fetch options, overriding the client options
+   * @returns Messages sorted by contentOffsetSeconds, and the report
+   * @throws {InvalidInputError} When the video ID, URL or an offset is invalid
+   * @throws {HttpError} When HTTP request fails after all retries
+   * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
+   * @throws {ResponseParseError} When response parsing fails
+   * @throws {GraphQLError} When Twitch GraphQL API returns errors
+   * @throws {VideoNotFoundError} When the video does not exist
+   * @throws {VideoRestrictedError} When the comments cannot be accessed
+   * @throws {CommentsUnavailableError} When the video provides no comments
+   * @throws {ClientIdRetrievalError} When Client ID retrieval fails
+   * @throws {AbortError} When aborted through options.signal
+   */
+  async fetchAllMessagesWithReport<N extends boolean = false>(
+    video: string,
+    options?: FetchAllMessagesOptions & NormalizeOptions<N>,
+  ): Promise<FetchAllMessagesWithReportResult<MessageOf<N>>> {
+    const { messages, report } = await this.fetchVideo(video, options);
+    return {
+      messages: normalizeMessages(messages, options?.normalize),
+      report,
+    };
   }
 
-  const startIndex = searchIndex + search.length;
-  const endIndex = html.indexOf('"', startIndex);
-  const clientId = html.slice(startIndex, endIndex);
+  /**
+   * Fetch the messages of several videos, sharing a single budget of requests
+   * in flight. Each video settles on its own, so that a failed video does not
+   * fail the others.
+   * @param videos - Twitch VOD IDs or URLs
+   * @param options - Fetch options applied to every video, overriding the
+   * client options
+   * @returns Result of each video, in the order of the given videos
+   */
+  async fetchManyVideos<N extends boolean = false>(
+    videos: string[],
+    options?: FetchManyVideosOptions & NormalizeOptions<N>,
+  ): Promise<Array<FetchManyVideosResult<MessageOf<N>>>> {
+    const {
+      videoConcurrency,
+      onProgress,
+      onEvent,
+      onSkippedEdge,
+      ...videoOptions
+    } = options ?? {};
+    const pool =
+      options?.concurrency !== undefined
+        ? new RequestPool(options.concurrency)
+        : this.pool;
+    const videoPool = new RequestPool(videoConcurrency ?? 4);
+    const percentages = videos.map(() => 0);
+    let settledVideos = 0;
 
-  return clientId;
-}
+    const reportProgress = (
+      index: number,
+      videoProgress: FetchAllMessagesProgress,
+    ) => {
+      percentages[index] = videoProgress.percentage;
+      onProgress?.({
+        video: videos[index]!,
+        videoProgress,
+        settledVideos,
+        totalVideos: videos.length,
+        percentage:
+          videos.length === 0
+            ? 100
+            : Math.round(
+                percentages.reduce((sum, value) => sum + value, 0) /
+                  videos.length,
+              ),
+      });
+    };
 
-/**
- * Create request payload for Twitch GraphQL API
- * @param videoId - Twitch VOD ID
- * @param contentOffsetSeconds - Content offset in seconds
- * @returns GraphQL request payload
- */
-function createPayload(videoId: string, contentOffsetSeconds: number) {
-  return [
-    {
-      operationName: "VideoCommentsByOffsetOrCursor",
-      variables: {
-        videoID: videoId,
-        contentOffsetSeconds,
-      },
-      extensions: {
-        persistedQuery: {
-          version: 1,
-          sha256Hash:
-            "b70a3591ff0f4e0313d126c6a1502d79a1c02baebb288227c582044aa76adf6a",
-        },
-      },
-    },
-  ];
-}
+    return Promise.all(
+      videos.map(
+        async (video, index): Promise<FetchManyVideosResult<MessageOf<N>>> => {
+          let videoProgress: FetchAllMessagesProgress = {
+            totalChunks: 0,
+            completedChunks: 0,
+            percentage: 0,
+          };
 
-/**
- * VOD comment node type
- */
-export type Node = NonNullable<
-  z.infer<typeof schema>["0"]["data"]["video"]["comments"]
->["edges"][number]["node"];
+          const result = await videoPool
+            .run(() =>
+              this.fetchVideo(video, {
+                ...videoOptions,
+                pool,
+                onProgress: (progress) => {
+                  videoProgress = progress;
+                  reportProgress(index, progress);
+                },
+                // Tag events with their video, as videos run concurrently
+                ...(onEvent !== undefined && {
+                  onEvent: (event) => onEvent({ ...event, video }),
+                }),
+                ...(onSkippedEdge !== undefined && {
+                  onSkippedEdge: (skipped) =>
+                    onSkippedEdge({ ...skipped, video }),
+                }),
+              }),
+            )
+            .then(
+              ({ messages, report }) => ({
+                status: "fulfilled" as const,
+                value: {
+                  messages: normalizeMessages(messages, options?.normalize),
+                  report,
+                },
+              }),
+              (reason: unknown) => ({ status: "rejected" as const, reason }),
+            );
 
-/**
- * Probe video length by sampling offsets
- * @param videoId - Twitch VOD ID
- * @param clientId - Twitch Client ID
- * @param probeInterval - Interval between probes in seconds
- * @returns Estimated video length in seconds
- * @throws {HttpError} When HTTP request fails
- * @throws {ResponseParseError} When response parsing fails
- */
-async function probeVideoLength(
-  videoId: string,
-  clientId: string,
-  probeInterval: number = 3600,
-): Promise<number> {
-  const probeOffsets = [0];
-  // Probe every hour for the first 5 hours
-  for (let i = 1; i <= 5; i++) {
-    probeOffsets.push(i * probeInterval);
-  }
-  // Probe every 4 hours up to 48 hours
-  for (let i = 8; i <= 48; i += 4) {
-    probeOffsets.push(i * probeInterval);
-  }
+          settledVideos++;
+          // A settled video counts as complete in the overall percentage
+          reportProgress(index, { ...videoProgress, percentage: 100 });
 
-  const endpointUrl = "https://gql.twitch.tv/gql";
-  const probeResults = await Promise.all(
-    probeOffsets.map(async (offset) => {
-      const res = await fetch(endpointUrl, {
-        method: "POST",
-        headers: {
-          "client-id": clientId,
+          return { ...result, video };
         },
-        body: JSON.stringify(createPayload(videoId, offset)),
-      });
+      ),
+    );
+  }
 
-      if (!res.ok) {
-        throw new HttpError(res.status, endpointUrl);
-      }
+  /**
+   * Fetch all messages from a video in parallel, along with a report
+   * @param video - Twitch VOD ID or URL
+   * @param options - Fetch options, overriding the client options, and the
+   * pool to send requests through instead of the client one
+   * @returns Comment nodes sorted by contentOffsetSeconds, and the report
+   * @throws {InvalidInputError} When the video ID, URL or an offset is invalid
+   * @throws {HttpError} When HTTP request fails after all retries
+   * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
+   * @throws {ResponseParseError} When response parsing fails
+   * @throws {GraphQLError} When Twitch GraphQL API returns errors
+   * @throws {VideoNotFoundError} When the video does not exist
+   * @throws {VideoRestrictedError} When the comments cannot be accessed
+   * @throws {CommentsUnavailableError} When the video provides no comments
+   * @throws {ClientIdRetrievalError} When Client ID retrieval fails
+   * @throws {AbortError} When aborted through options.signal
+   */
+  private async fetchVideo(
+    video: string,
+    options?: FetchAllMessagesOptions & { pool?: RequestPool },
+  ): Promise<FetchAllMessagesWithReportResult> {
+    const reference = parseVideoReference(video);
+    const { videoId } = reference;
+    const concurrency = options?.concurrency ?? this.options.concurrency ?? 128;
+    const context = this.createRequestContext({ videoId }, options);
 
-      const json = await res.json();
-      const result = schema.safeParse(json);
+    try {
+      // 1. Retrieve Client ID
+      context.onEvent?.({ type: "phase", phase: "client-id" });
+      await context.resolveClientId();
 
-      if (!result.success) {
-        throw new ResponseParseError(
-          "Failed to parse GraphQL response",
-          result.error.errors,
+      // 2. Get or estimate video length
+      const window = await resolveWindow(reference, context, options);
+
+      // 3. Fetch comments from chunks in parallel
+      context.onEvent?.({ type: "phase", phase: "fetch" });
+      let chunks: Chunk[];
+      const results: Node[][] = [];
+      if (window.end === Infinity) {
+        const chunk = unboundedChunk(window.start);
+        context.onPage = createPageReporter(context, window, () => [
+          unboundedChunkProgress(chunk),
+        ]);
+        results.push(await fetchChunkMessages(videoId, context, chunk));
+        chunks = [chunk];
+      } else {
+        const scheduler = await createScheduler(
+          videoId,
+          context,
+          window,
+          concurrency,
+          options,
         );
-      }
+        context.onPage = createPageReporter(context, window, () =>
+          scheduler.progress(),
+        );
+        await scheduler.run();
 
-      const firstResult = result.data[0];
-      if (firstResult === undefined) {
-        throw new ResponseParseError("GraphQL response array is empty");
+        for await (const nodes of scheduler.results()) {
+          results.push(nodes);
+        }
+        chunks = scheduler.chunks();
       }
 
-      const comments = firstResult.data.video.comments;
+      const report = createReport(chunks, results, context.stats, window);
 
-      return {
-        offset,
-        hasNextPage: comments?.pageInfo?.hasNextPage ?? false,
-        maxOffsetSeconds:
-          comments?.edges?.at(-1)?.node?.contentOffsetSeconds ?? offset,
-      };
-    }),
-  );
+      // 4. Merge results, deduplicate, and sort
+      context.onEvent?.({ type: "phase", phase: "merge" });
+      const allNodes = results.flat();
+      const uniqueNodes = Array.from(
+        new Map(allNodes.map((node) => [node.id, node])).values(),
+      );
+      const messages = uniqueNodes.sort(
+        (a, b) => a.contentOffsetSeconds - b.contentOffsetSeconds,
+      );
 
-  // Find the first probe where hasNextPage is false
-  const endProbe = probeResults.find((r) => !r.hasNextPage);
-  if (endProbe) {
-    return endProbe.maxOffsetSeconds;
+      return { messages, report };
+    } catch (error) {
+      context.onEvent?.({ type: "error", error });
+      throw error;
+    }
   }
 
-  // If all probes have hasNextPage = true, estimate as double the last offset
-  const lastProbe = probeResults[probeResults.length - 1];
-  if (lastProbe) {
-    return lastProbe.maxOffsetSeconds * 2;
-  }
+  /**
+   * Stream all messages from a video, fetching chunks in parallel.
+   * Messages are yielded in contentOffsetSeconds order as soon as every
+   * preceding chunk has completed. Chunks are started at most `concurrency`
+   * chunks ahead of the one being yielded, so only unconsumed chunks are kept
+   * in memory, and fetching stops when the iteration stops.
+   * @param video - Twitch VOD ID or URL
+   * @param options - Fetch options, overriding the client options
+   * @returns Async iterable of messages, sorted by contentOffsetSeconds
+   * @throws {InvalidInputError} When the video ID, URL or an offset is invalid
+   * @throws {HttpError} When HTTP request fails after all retries
+   * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
+   * @throws {ResponseParseError} When response parsing fails
+   * @throws {GraphQLError} When Twitch GraphQL API returns errors
+   * @throws {VideoNotFoundError} When the video does not exist
+   * @throws {VideoRestrictedError} When the comments cannot be accessed
+   * @throws {CommentsUnavailableError} When the video provides no comments
+   * @throws {ClientIdRetrievalError} When Client ID retrieval fails
+   * @throws {AbortError} When aborted through options.signal
+   */
+  async *streamAllMessages<N extends boolean = false>(
+    video: string,
+    options?: FetchAllMessagesOptions & NormalizeOptions<N>,
+  ): AsyncIterable<MessageOf<N>> {
+    const reference = parseVideoReference(video);
+    const { videoId } = reference;
+    const concurrency = options?.concurrency ?? this.options.concurrency ?? 128;
+    const context = this.createRequestContext({ videoId }, options);
 
-  // Fallback to 0 if no results
-  return 0;
-}
+    try {
+      // 1. Retrieve Client ID
+      context.onEvent?.({ type: "phase", phase: "client-id" });
+      await context.resolveClientId();
 
-/**
- * Fetch messages from a specific offset until the end or next chunk
- * @param videoId - Twitch VOD ID
- * @param clientId - Twitch Client ID
- * @param startOffset - Starting offset in seconds
- * @param endOffset - Optional ending offset in seconds
- * @returns Array of comment nodes
- */
-async function fetchMessagesFromOffset(
-  videoId: string,
-  clientId: string,
-  startOffset: number,
-  endOffset?: number,
-): Promise<Node[]> {
-  const nodes: Node[] = [];
-  const set = new Set<string>();
-  let offset = startOffset;
-  let hasNextPage = true;
-
-  while (hasNextPage) {
-    const endpointUrl = "https://gql.twitch.tv/gql";
-    const res = await fetch(endpointUrl, {
-      method: "POST",
-      headers: {
-        "client-id": clientId,
-      },
-      body: JSON.stringify(createPayload(videoId, offset)),
-    });
+      // 2. Get or estimate video length
+      const window = await resolveWindow(reference, context, options);
 
-    if (!res.ok) {
-      throw new HttpError(res.status, endpointUrl);
+      // 3. Fetch comments from chunks in parallel, yielding them in order
+      for await (const node of streamWindow(
+        videoId,
+        context,
+        window,
+        concurrency,
+        options,
+      )) {
+        yield normalizeMessage(node, options?.normalize);
+      }
+    } catch (error) {
+      context.onEvent?.({ type: "error", error });
+      throw error;
     }
+  }
+
+  /**
+   * Follow the messages of a video whose stream is still live.
+   * The existing messages are fetched first, then new messages are polled
+   * until the video stops growing.
+   * @param video - Twitch VOD ID or URL
+   * @param options - Fetch options, overriding the client options
+   * @returns Async iterable of messages, sorted by contentOffsetSeconds
+   * @throws {InvalidInputError} When the video ID, URL or an offset is invalid
+   * @throws {HttpError} When HTTP request fails after all retries
+   * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
+   * @throws {ResponseParseError} When response parsing fails
+   * @throws {GraphQLError} When Twitch GraphQL API returns errors
+   * @throws {VideoNotFoundError} When the video does not exist
+   * @throws {VideoRestrictedError} When the comments cannot be accessed
+   * @throws {CommentsUnavailableError} When the video provides no comments
+   * @throws {ClientIdRetrievalError} When Client ID retrieval fails
+   * @throws {AbortError} When aborted through options.signal
+   */
+  async *followMessages<N extends boolean = false>(
+    video: string,
+    options?: FollowMessagesOptions & NormalizeOptions<N>,
+  ): AsyncIterable<MessageOf<N>> {
+    const reference = parseVideoReference(video);
+    const { videoId } = reference;
+    const concurrency = options?.concurrency ?? this.options.concurrency ?? 128;
+    const pollIntervalMs = options?.pollIntervalMs ?? 30000;
+    const context = this.createRequestContext({ videoId }, options);
+    // Pages of a growing video change, so they are never cached
+    context.cache = undefined;
 
-    const json = await res.json();
-    const result = schema.safeParse(json);
+    try {
+      // 1. Retrieve Client ID
+      context.onEvent?.({ type: "phase", phase: "client-id" });
+      await context.resolveClientId();
 
-    if (!result.success) {
-      throw new ResponseParseError(
-        "Failed to parse GraphQL response",
-        result.error.errors,
-      );
-    }
+      // 2. Fetch the messages up to the current length of the video
+      context.onEvent?.({ type: "phase", phase: "probe" });
+      let { lengthSeconds } = await requestVideoMetadata(videoId, context);
+      // The window may be empty when starting beyond the current length
+      const window = {
+        start: resolveStart(reference, options),
+        end: lengthSeconds,
+      };
+      for await (const node of streamWindow(
+        videoId,
+        context,
+        window,
+        concurrency,
+        options,
+      )) {
+        yield normalizeMessage(node, options?.normalize);
+      }
 
-    const firstResult = result.data[0];
-    if (firstResult === undefined) {
-      throw new ResponseParseError("GraphQL response array is empty");
-    }
+      // 3. Poll for new messages until the video stops growing
+      const pollStart = Math.max(window.start, window.end);
+      let position: CommentsPosition = { contentOffsetSeconds: pollStart };
+      // Offsets of the nodes yielded while polling, by ID
+      const seen = new Map<string, number>();
+      while (true) {
+        while (true) {
+          throwIfAborted(context.signal);
 
-    const comments = firstResult.data.video.comments;
+          const comments = await fetchComments(videoId, position, context);
+          for (const { node } of comments.edges) {
+            // The first page may start before the requested offset, with nodes
+            // already yielded by the history
+            if (node.contentOffsetSeconds < pollStart) {
+              continue;
+            }
+            if (!seen.has(node.id)) {
+              seen.set(node.id, node.contentOffsetSeconds);
+              yield normalizeMessage(node, options?.normalize);
+            }
+          }
 
-    if (comments == null) {
-      break;
-    }
+          if (comments.endCursor !== null) {
+            position = { cursor: comments.endCursor };
+          }
+          // Nodes before the last one are never returned again
+          const lastOffset = comments.edges.at(-1)?.node.contentOffsetSeconds;
+          if (lastOffset !== undefined) {
+            for (const [id, offset] of seen) {
+              if (offset < lastOffset) {
+                seen.delete(id);
+              }
+            }
+          }
+          if (!comments.pageInfo.hasNextPage) {
+            break;
+          }
+        }
 
-    const newNodes = comments.edges
-      .map((x) => x.node)
-      .filter((x) => !set.has(x.id));
+        await sleep(pollIntervalMs, context.signal);
 
-    for (const node of newNodes) {
-      // If endOffset is specified, do not include comments beyond it
-      if (endOffset !== undefined && node.contentOffsetSeconds >= endOffset) {
-        hasNextPage = false;
-        break;
+        const metadata = await requestVideoMetadata(videoId, context);
+        if (metadata.lengthSeconds <= lengthSeconds) {
+          return;
+        }
+        lengthSeconds = metadata.lengthSeconds;
       }
-      set.add(node.id);
-      nodes.push(node);
-    }
-
-    if (!comments.pageInfo.hasNextPage) {
-      break;
+    } catch (error) {
+      context.onEvent?.({ type: "error", error });
+      throw error;
     }
-
-    offset = newNodes.at(-1)?.contentOffsetSeconds ?? offset + 1;
   }
 
-  return nodes;
-}
-
-/**
- * Progress information for fetchAllMessages
- */
-export type FetchAllMessagesProgress = {
-  /**
-   * Total number of chunks
-   */
-  totalChunks: number;
-  /**
-   * Number of completed chunks
-   */
-  completedChunks: number;
   /**
-   * Current progress percentage (0-100)
+   * Fetch the messages of a clip, resolving it to the time window of the
+   * video it was cut from
+   * @param clip - Twitch clip slug or URL
+   * @param options - Fetch options, overriding the client options
+   * @returns Array of messages of the clip, sorted by contentOffsetSeconds
+   * @throws {InvalidInputError} When the clip slug or URL is invalid
+   * @throws {HttpError} When HTTP request fails after all retries
+   * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
+   * @throws {ResponseParseError} When response parsing fails
+   * @throws {GraphQLError} When Twitch GraphQL API returns errors
+   * @throws {ClipNotFoundError} When the clip does not exist
+   * @throws {ClipSourceUnavailableError} When the source video is unavailable
+   * @throws {VideoRestrictedError} When the comments cannot be accessed
+   * @throws {CommentsUnavailableError} When the video provides no comments
+   * @throws {ClientIdRetrievalError} When Client ID retrieval fails
+   * @throws {AbortError} When aborted through options.signal
    */
-  percentage: number;
-};
+  async fetchClipMessages<N extends boolean = false>(
+    clip: string,
+    options?: FetchClipMessagesOptions & NormalizeOptions<N>,
+  ): Promise<Array<MessageOf<N>>> {
+    const slug = parseClipReference(clip);
+    const context = this.createRequestContext({ clipSlug: slug }, options);
+
+    const { videoId, window } = await requestClipSource(slug, context);
+
+    return this.fetchAllMessages(videoId, {
+      chunkCount: 1,
+      ...options,
+      startSeconds: window.start,
+      endSeconds: window.end,
+    });
+  }
 
-/**
- * Options for fetchAllMessages
- */
-export type FetchAllMessagesOptions = {
   /**
-   * Number of parallel requests
-   * @default 128
+   * Fetch the display information of the badges that can appear in the chat
+   * of a channel: the global badges, and the channel subscriber and bits
+   * badges replacing them
+   * @param channel - Twitch channel login or URL
+   * @param options - Request options, overriding the client options
+   * @returns Badges with their title and image URLs
+   * @throws {InvalidInputError} When the channel login or URL is invalid
+   * @throws {HttpError} When HTTP request fails after all retries
+   * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
+   * @throws {ResponseParseError} When response parsing fails
+   * @throws {GraphQLError} When Twitch GraphQL API returns errors
+   * @throws {ChannelNotFoundError} When the channel does not exist
+   * @throws {ClientIdRetrievalError} When Client ID retrieval fails
+   * @throws {AbortError} When aborted through options.signal
    */
-  concurrency?: number;
+  async fetchChannelBadges(
+    channel: string,
+    options?: RequestOptions,
+  ): Promise<BadgeInfo[]> {
+    const login = parseChannelReference(channel);
+    const context = this.createRequestContext({ channel: login }, options);
+    return requestChannelBadges(login, context);
+  }
+
   /**
-   * Progress callback
+   * Resolve the settings used for every request of a single call
+   * @param page - Video or clip whose page is scraped for the Client ID
+   * @param options - Request options, overriding the client options
+   * @returns Request settings
    */
-  onProgress?: (progress: FetchAllMessagesProgress) => void;
+  private createRequestContext(
+    page: ClientIdPage,
+    options?: RequestOptions & {
+      concurrency?: number;
+      batchSize?: number;
+      onSkippedEdge?: (skipped: SkippedEdge) => void;
+      onEvent?: (event: FetchAllMessagesEvent) => void;
+      pool?: RequestPool;
+    },
+  ): RequestContext {
+    const transport = options?.transport ?? this.options.transport;
+    const transportFetch = transport?.fetch ?? fetch;
+    const stats = {
+      requests: 0,
+      pages: 0,
+      bytes: 0,
+      retries: 0,
+      latenciesMs: [],
+      startedAt: Date.now(),
+    };
+    const onEvent = options?.onEvent;
+    const persistedQuery =
+      options?.persistedQuery ?? this.options.persistedQuery;
+    const context: RequestContext = {
+      retry: options?.retry ?? this.options.retry,
+      signal: options?.signal,
+      fetch: (input, init) => {
+        stats.requests++;
+        return transportFetch(input, init);
+      },
+      gqlUrl: transport?.gqlUrl ?? defaultGqlUrl,
+      videoPageUrl: transport?.videoPageUrl ?? defaultVideoPageUrl,
+      clipPageUrl: transport?.clipPageUrl ?? defaultClipPageUrl,
+      channelPageUrl: transport?.channelPageUrl ?? defaultChannelPageUrl,
+      pool:
+        options?.pool ??
+        (options?.concurrency !== undefined
+          ? new RequestPool(options.concurrency)
+          : this.pool),
+      comments: new RequestBatcher(
+        options?.batchSize ?? this.options.batchSize ?? 1,
+        (requests) => requestComments(requests, context),
+      ),
+      commentsQueryHash: persistedQuery?.sha256Hash ?? defaultCommentsQueryHash,
+      fallbackToQuery: persistedQuery?.fallbackToQuery ?? false,
+      sendCommentsQuery: false,
+      stats,
+      parseMode: options?.parseMode ?? this.options.parseMode ?? "strict",
+      cache: options?.cache ?? this.options.cache,
+      onSkippedEdge: options?.onSkippedEdge,
+      skippedCursors: new Set(),
+      hooks: options?.hooks ?? this.options.hooks ?? {},
+      onEvent,
+      onRetry: (attempt) => {
+        stats.retries++;
+        onEvent?.({ type: "retry", ...attempt });
+      },
+      onPage: undefined,
+      resolveClientId: (rejected) =>
+        this.resolveClientId(page, context, rejected),
+      resolveAuthToken: createAuthTokenResolver(
+        options?.authToken ?? this.options.authToken,
+      ),
+    };
+
+    return context;
+  }
+
   /**
-   * Video length in seconds (optional).
-   * If provided, skips the probe phase for better performance.
-   * If not provided, will be estimated automatically.
+   * Resolve the Client ID, scraping it on first use
+   * @param page - Video or clip whose page is scraped on first use
+   * @param context - Request settings
+   * @param rejected - Client ID rejected by the GraphQL endpoint. If it is the
+   * cached one, the Client ID is scraped again.
+   * @returns Client ID string
+   * @throws {HttpError} When HTTP request fails after all retries
+   * @throws {ClientIdRetrievalError} When Client ID retrieval fails
    */
-  lengthSeconds?: number;
-};
+  private resolveClientId(
+    page: ClientIdPage,
+    context: RequestContext,
+    rejected?: string,
+  ): Promise<string> {
+    if (this.options.clientId !== undefined) {
+      return Promise.resolve(this.options.clientId);
+    }
+
+    const cached = this.clientId;
+    const clientId =
+      cached === undefined
+        ? retrieveClientId(page, context)
+        : rejected === undefined
+          ? cached
+          : cached.then((id) =>
+              id === rejected ? retrieveClientId(page, context, rejected) : id,
+            );
+
+    if (clientId !== cached) {
+      this.clientId = clientId;
+      // Do not cache failures, so that the next call scrapes again
+      clientId.catch(() => {
+        if (this.clientId === clientId) {
+          this.clientId = undefined;
+        }
+      });
+    }
+
+    return clientId;
+  }
+}
 
 /**
  * Fetch all messages from a video in parallel
- * @param videoId - Twitch VOD ID
+ * @param video - Twitch VOD ID or URL
  * @param options - Fetch options
- * @returns Array of all comment nodes, sorted by contentOffsetSeconds
- * @throws {HttpError} When HTTP request fails
+ * @returns Array of all messages, sorted by contentOffsetSeconds
+ * @throws {InvalidInputError} When the video ID, URL or an offset is invalid
+ * @throws {HttpError} When HTTP request fails after all retries
+ * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
  * @throws {ResponseParseError} When response parsing fails
+ * @throws {GraphQLError} When Twitch GraphQL API returns errors
+ * @throws {VideoNotFoundError} When the video does not exist
+ * @throws {VideoRestrictedError} When the comments cannot be accessed
+ * @throws {CommentsUnavailableError} When the video provides no comments
  * @throws {ClientIdRetrievalError} When Client ID retrieval fails
+ * @throws {AbortError} When aborted through options.signal
  */
-export async function fetchAllMessages(
-  videoId: string,
-  options?: FetchAllMessagesOptions,
-): Promise<Node[]> {
-  const concurrency = options?.concurrency ?? 128;
-  const onProgress = options?.onProgress;
-
-  // 1. Retrieve Client ID
-  const clientId = await retrieveClientId(videoId);
-
-  // 2. Get or estimate video length
-  const lengthSeconds =
-    options?.lengthSeconds ?? (await probeVideoLength(videoId, clientId));
-
-  if (lengthSeconds === 0) {
-    return fetchMessagesFromOffset(videoId, clientId, 0);
-  }
-
-  // 2. Calculate start positions based on concurrency
-  const chunkSize = Math.ceil(lengthSeconds / concurrency);
-  const chunks: Array<{ start: number; end: number }> = [];
-
-  for (let i = 0; i < concurrency; i++) {
-    const start = i * chunkSize;
-    const end = Math.min((i + 1) * chunkSize, lengthSeconds);
-    if (start < lengthSeconds) {
-      chunks.push({ start, end });
-    }
-  }
-
-  // 3. Fetch comments from each chunk in parallel
-  let completedChunks = 0;
-  const results = await Promise.all(
-    chunks.map(async (chunk) => {
-      const nodes = await fetchMessagesFromOffset(
-        videoId,
-        clientId,
-        chunk.start,
-        chunk.end,
-      );
-      completedChunks++;
-
-      if (onProgress) {
-        onProgress({
-          totalChunks: chunks.length,
-          completedChunks,
-          percentage: Math.round((completedChunks / chunks.length) * 100),
-        });
-      }
-
-      return nodes;
-    }),
-  );
-
-  // 4. Merge results, deduplicate, and sort
-  const allNodes = results.flat();
-  const uniqueNodes = Array.from(
-    new Map(allNodes.map((node) => [node.id, node])).values(),
-  );
-
-  return uniqueNodes.sort(
-    (a, b) => a.contentOffsetSeconds - b.contentOffsetSeconds,
-  );
+export function fetchAllMessages<N extends boolean = false>(
+  video: string,
+  options?: FetchAllMessagesOptions & NormalizeOptions<N>,
+): Promise<Array<MessageOf<N>>> {
+  return new TwitchVodClient().fetchAllMessages(video, options);
 }
 
 /**
- * Result type for fetchMessages
+ * Fetch all messages from a video in parallel, along with a report of the
+ * completeness and integrity of the result
+ * @param video - Twitch VOD ID or URL
+ * @param options - Fetch options
+ * @returns Messages sorted by contentOffsetSeconds, and the report
+ * @throws {InvalidInputError} When the video ID, URL or an offset is invalid
+ * @throws {HttpError} When HTTP request fails after all retries
+ * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
+ * @throws {ResponseParseError} When response parsing fails
+ * @throws {GraphQLError} When Twitch GraphQL API returns errors
+ * @throws {VideoNotFoundError} When the video does not exist
+ * @throws {VideoRestrictedError} When the comments cannot be accessed
+ * @throws {CommentsUnavailableError} When the video provides no comments
+ * @throws {ClientIdRetrievalError} When Client ID retrieval fails
+ * @throws {AbortError} When aborted through options.signal
  */
-export type FetchMessagesResult = {
-  /**
-   * Array of comment nodes
-   */
-  nodes: Node[];
-};
+export function fetchAllMessagesWithReport<N extends boolean = false>(
+  video: string,
+  options?: FetchAllMessagesOptions & NormalizeOptions<N>,
+): Promise<FetchAllMessagesWithReportResult<MessageOf<N>>> {
+  return new TwitchVodClient().fetchAllMessagesWithReport(video, options);
+}
 
 /**
- * Options for fetchMessages
+ * Fetch the messages of several videos, sharing a single budget of requests in
+ * flight. Each video settles on its own, so that a failed video does not fail
+ * the others.
+ * @param videos - Twitch VOD IDs or URLs
+ * @param options - Fetch options applied to every video
+ * @returns Result of each video, in the order of the given videos
  */
-export type FetchMessagesOptions = {
-  /**
-   * Content offset in seconds
-   */
-  contentOffsetSeconds?: number;
-};
+export function fetchManyVideos<N extends boolean = false>(
+  videos: string[],
+  options?: FetchManyVideosOptions & NormalizeOptions<N>,
+): Promise<Array<FetchManyVideosResult<MessageOf<N>>>> {
+  return new TwitchVodClient().fetchManyVideos(videos, options);
+}
 
 /**
- * Fetch messages from a video with content offset
- * @param videoId - Twitch VOD ID
+ * Stream all messages from a video, fetching chunks in parallel
+ * @param video - Twitch VOD ID or URL
  * @param options - Fetch options
- * @returns Result with nodes
- * @throws {HttpError} When HTTP request fails
+ * @returns Async iterable of messages, sorted by contentOffsetSeconds
+ * @throws {InvalidInputError} When the video ID, URL or an offset is invalid
+ * @throws {HttpError} When HTTP request fails after all retries
+ * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
  * @throws {ResponseParseError} When response parsing fails
+ * @throws {GraphQLError} When Twitch GraphQL API returns errors
+ * @throws {VideoNotFoundError} When the video does not exist
+ * @throws {VideoRestrictedError} When the comments cannot be accessed
+ * @throws {CommentsUnavailableError} When the video provides no comments
  * @throws {ClientIdRetrievalError} When Client ID retrieval fails
+ * @throws {AbortError} When aborted through options.signal
  */
-export async function fetchMessages(
-  videoId: string,
-  options?: FetchMessagesOptions,
-): Promise<FetchMessagesResult> {
-  const clientId = await retrieveClientId(videoId);
-  const contentOffsetSeconds = options?.contentOffsetSeconds ?? 0;
-
-  const endpointUrl = "https://gql.twitch.tv/gql";
-  const res = await fetch(endpointUrl, {
-    method: "POST",
-    headers: {
-      "client-id": clientId,
-    },
-    body: JSON.stringify(createPayload(videoId, contentOffsetSeconds)),
-  });
-
-  if (!res.ok) {
-    throw new HttpError(res.status, endpointUrl);
-  }
-
-  const json = await res.json();
-  const result = schema.safeParse(json);
-
-  if (!result.success) {
-    throw new ResponseParseError(
-      "Failed to parse GraphQL response",
-      result.error.errors,
-    );
-  }
+export function streamAllMessages<N extends boolean = false>(
+  video: string,
+  options?: FetchAllMessagesOptions & NormalizeOptions<N>,
+): AsyncIterable<MessageOf<N>> {
+  return new TwitchVodClient().streamAllMessages(video, options);
+}
 
-  const firstResult = result.data[0];
-  if (firstResult === undefined) {
-    throw new ResponseParseError("GraphQL response array is empty");
-  }
+/**
+ * Follow the messages of a video whose stream is still live.
+ * The existing messages are fetched first, then new messages are polled until
+ * the video stops growing.
+ * @param video - Twitch VOD ID or URL
+ * @param options - Fetch options
+ * @returns Async iterable of messages, sorted by contentOffsetSeconds
+ * @throws {InvalidInputError} When the video ID, URL or an offset is invalid
+ * @throws {HttpError} When HTTP request fails after all retries
+ * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
+ * @throws {ResponseParseError} When response parsing fails
+ * @throws {GraphQLError} When Twitch GraphQL API returns errors
+ * @throws {VideoNotFoundError} When the video does not exist
+ * @throws {VideoRestrictedError} When the comments cannot be accessed
+ * @throws {CommentsUnavailableError} When the video provides no comments
+ * @throws {ClientIdRetrievalError} When Client ID retrieval fails
+ * @throws {AbortError} When aborted through options.signal
+ */
+export function followMessages<N extends boolean = false>(
+  video: string,
+  options?: FollowMessagesOptions & NormalizeOptions<N>,
+): AsyncIterable<MessageOf<N>> {
+  return new TwitchVodClient().followMessages(video, options);
+}
 
-  const comments = firstResult.data.video.comments;
+/**
+ * Fetch the messages of a clip, resolving it to the time window of the video
+ * it was cut from
+ * @param clip - Twitch clip slug or URL
+ * @param options - Fetch options
+ * @returns Array of messages of the clip, sorted by contentOffsetSeconds
+ * @throws {InvalidInputError} When the clip slug or URL is invalid
+ * @throws {HttpError} When HTTP request fails after all retries
+ * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
+ * @throws {ResponseParseError} When response parsing fails
+ * @throws {GraphQLError} When Twitch GraphQL API returns errors
+ * @throws {ClipNotFoundError} When the clip does not exist
+ * @throws {ClipSourceUnavailableError} When the source video is unavailable
+ * @throws {VideoRestrictedError} When the comments cannot be accessed
+ * @throws {CommentsUnavailableError} When the video provides no comments
+ * @throws {ClientIdRetrievalError} When Client ID retrieval fails
+ * @throws {AbortError} When aborted through options.signal
+ */
+export function fetchClipMessages<N extends boolean = false>(
+  clip: string,
+  options?: FetchClipMessagesOptions & NormalizeOptions<N>,
+): Promise<Array<MessageOf<N>>> {
+  return new TwitchVodClient().fetchClipMessages(clip, options);
+}
 
-  if (comments == null) {
-    return {
-      nodes: [],
-    };
-  }
+/**
+ * Fetch the display information of the badges that can appear in the chat of
+ * a channel: the global badges, and the channel subscriber and bits badges
+ * replacing them
+ * @param channel - Twitch channel login or URL
+ * @param options - Request options
+ * @returns Badges with their title and image URLs
+ * @throws {InvalidInputError} When the channel login or URL is invalid
+ * @throws {HttpError} When HTTP request fails after all retries
+ * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
+ * @throws {ResponseParseError} When response parsing fails
+ * @throws {GraphQLError} When Twitch GraphQL API returns errors
+ * @throws {ChannelNotFoundError} When the channel does not exist
+ * @throws {ClientIdRetrievalError} When Client ID retrieval fails
+ * @throws {AbortError} When aborted through options.signal
+ */
+export function fetchChannelBadges(
+  channel: string,
+  options?: RequestOptions,
+): Promise<BadgeInfo[]> {
+  return new TwitchVodClient().fetchChannelBadges(channel, options);
+}
 
-  const nodes = comments.edges.map((x) => x.node);
+/**
+ * Fetch messages from a video with content offset or cursor
+ * @param video - Twitch VOD ID or URL
+ * @param options - Fetch options
+ * @returns Result with messages and pagination info
+ * @throws {InvalidInputError} When the video ID, URL or an offset is invalid
+ * @throws {HttpError} When HTTP request fails after all retries
+ * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
+ * @throws {ResponseParseError} When response parsing fails
+ * @throws {GraphQLError} When Twitch GraphQL API returns errors
+ * @throws {VideoNotFoundError} When the video does not exist
+ * @throws {VideoRestrictedError} When the comments cannot be accessed
+ * @throws {CommentsUnavailableError} When the video provides no comments
+ * @throws {ClientIdRetrievalError} When Client ID retrieval fails
+ * @throws {AbortError} When aborted through options.signal
+ */
+export function fetchMessages<N extends boolean = false>(
+  video: string,
+  options?: FetchMessagesOptions & NormalizeOptions<N>,
+): Promise<FetchMessagesResult<MessageOf<N>>> {
+  return new TwitchVodClient().fetchMessages(video, options);
+}
 
-  return {
-    nodes,
-  };
+/**
+ * Fetch metadata of a video
+ * @param video - Twitch VOD ID or URL
+ * @param options - Request options
+ * @returns Video metadata
+ * @throws {InvalidInputError} When the video ID, URL or an offset is invalid
+ * @throws {HttpError} When HTTP request fails after all retries
+ * @throws {AuthenticationError} When the OAuth token or Client ID is rejected
+ * @throws {ResponseParseError} When response parsing fails
+ * @throws {GraphQLError} When Twitch GraphQL API returns errors
+ * @throws {VideoNotFoundError} When the video does not exist
+ * @throws {VideoRestrictedError} When the video cannot be accessed
+ * @throws {ClientIdRetrievalError} When Client ID retrieval fails
+ * @throws {AbortError} When aborted through options.signal
+ */
+export function fetchVideoMetadata(
+  video: string,
+  options?: RequestOptions,
+): Promise<VideoMetadata> {
+  return new TwitchVodClient().fetchVideoMetadata(video, options);
 }
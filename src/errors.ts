@@ -12,6 +12,20 @@ export class ClientIdRetrievalError extends Error {
   }
 }
 
+/**
+ * Error thrown when a video ID, clip slug, URL or offset given by the caller
+ * is invalid
+ */
+export class InvalidInputError extends Error {
+  public readonly input: string;
+
+  constructor(message: string, input: string) {
+    super(message);
+    this.name = "InvalidInputError";
+    this.input = input;
+  }
+}
+
 /**
  * Error thrown when parsing Twitch GraphQL API response fails
  */
@@ -25,17 +39,188 @@ export class ResponseParseError extends Error {
   }
 }
 
+/**
+ * Error reported by Twitch GraphQL API
+ */
+export type GraphQLErrorDetail = {
+  /**
+   * Error message, such as "PersistedQueryNotFound"
+   */
+  message: string;
+  /**
+   * Path of the field the error relates to
+   */
+  path?: Array<string | number> | undefined;
+};
+
+/**
+ * Error thrown when Twitch GraphQL API returns errors instead of data
+ */
+export class GraphQLError extends Error {
+  public readonly errors: GraphQLErrorDetail[];
+
+  constructor(message: string, errors: GraphQLErrorDetail[]) {
+    super(message);
+    this.name = "GraphQLError";
+    this.errors = errors;
+  }
+}
+
+/**
+ * Error thrown when a video does not exist, for example because it was deleted
+ */
+export class VideoNotFoundError extends Error {
+  public readonly videoId: string;
+
+  constructor(videoId: string, message?: string) {
+    super(message ?? `Video ${videoId} was not found`);
+    this.name = "VideoNotFoundError";
+    this.videoId = videoId;
+  }
+}
+
+/**
+ * Error thrown when the comments of a video cannot be accessed, for example
+ * because the video is private or subscriber-only
+ */
+export class VideoRestrictedError extends Error {
+  public readonly videoId: string;
+  /**
+   * Errors reported by Twitch GraphQL API for the comments
+   */
+  public readonly errors: GraphQLErrorDetail[];
+
+  constructor(videoId: string, errors: GraphQLErrorDetail[], message?: string) {
+    super(
+      message ??
+        `Comments of video ${videoId} are restricted: ${errors.map((e) => e.message).join(", ")}`,
+    );
+    this.name = "VideoRestrictedError";
+    this.videoId = videoId;
+    this.errors = errors;
+  }
+}
+
+/**
+ * Error thrown when a video exists but provides no comments, for example
+ * because its chat replay is unavailable
+ */
+export class CommentsUnavailableError extends Error {
+  public readonly videoId: string;
+
+  constructor(videoId: string, message?: string) {
+    super(message ?? `Comments of video ${videoId} are unavailable`);
+    this.name = "CommentsUnavailableError";
+    this.videoId = videoId;
+  }
+}
+
+/**
+ * Error thrown when a clip does not exist, for example because it was deleted
+ */
+export class ClipNotFoundError extends Error {
+  public readonly slug: string;
+
+  constructor(slug: string, message?: string) {
+    super(message ?? `Clip ${slug} was not found`);
+    this.name = "ClipNotFoundError";
+    this.slug = slug;
+  }
+}
+
+/**
+ * Error thrown when the video a clip was cut from is unavailable, for example
+ * because it was deleted after the clip was created
+ */
+export class ClipSourceUnavailableError extends Error {
+  public readonly slug: string;
+
+  constructor(slug: string, message?: string) {
+    super(message ?? `Source video of clip ${slug} is unavailable`);
+    this.name = "ClipSourceUnavailableError";
+    this.slug = slug;
+  }
+}
+
+/**
+ * Error thrown when a channel does not exist
+ */
+export class ChannelNotFoundError extends Error {
+  public readonly channel: string;
+
+  constructor(channel: string, message?: string) {
+    super(message ?? `Channel ${channel} was not found`);
+    this.name = "ChannelNotFoundError";
+    this.channel = channel;
+  }
+}
+
 /**
  * Error thrown when HTTP request fails
  */
 export class HttpError extends Error {
   public readonly statusCode: number;
   public readonly url: string;
+  /**
+   * Number of attempts made before giving up
+   */
+  public readonly attempts: number;
+  /**
+   * Headers of the last response
+   */
+  public readonly headers?: Headers;
 
-  constructor(statusCode: number, url: string, message?: string) {
+  constructor(
+    statusCode: number,
+    url: string,
+    message?: string,
+    details?: { attempts?: number; headers?: Headers },
+  ) {
     super(message ?? `HTTP error ${statusCode} for ${url}`);
     this.name = "HttpError";
     this.statusCode = statusCode;
     this.url = url;
+    this.attempts = details?.attempts ?? 1;
+    if (details?.headers !== undefined) {
+      this.headers = details.headers;
+    }
+  }
+}
+
+/**
+ * Error thrown when Twitch rejects the credentials of a request with HTTP 401,
+ * such as an invalid or expired OAuth token
+ */
+export class AuthenticationError extends HttpError {
+  constructor(
+    url: string,
+    message?: string,
+    details?: { attempts?: number; headers?: Headers },
+  ) {
+    super(401, url, message ?? `Authentication failed for ${url}`, details);
+    this.name = "AuthenticationError";
+  }
+}
+
+/**
+ * Error thrown when an operation is cancelled through an AbortSignal
+ */
+export class AbortError extends Error {
+  /**
+   * Time ranges of the chunks that had already been fetched when
+   * fetchAllMessages was aborted
+   */
+  public readonly completedChunks: Array<{ start: number; end: number }>;
+
+  constructor(
+    message?: string,
+    options?: {
+      cause?: unknown;
+      completedChunks?: Array<{ start: number; end: number }>;
+    },
+  ) {
+    super(message ?? "The operation was aborted", { cause: options?.cause });
+    this.name = "AbortError";
+    this.completedChunks = options?.completedChunks ?? [];
   }
 }
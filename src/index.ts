@@ -1,2 +1,9 @@
 export * from "./client";
+export * from "./badges";
+export * from "./cache";
+export * from "./checkpoint";
 export * from "./errors";
+export * from "./message";
+export * from "./reference";
+export type { RetryAttempt, RetryPolicy } from "./retry";
+export type { Transport } from "./transport";
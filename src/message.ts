@@ -0,0 +1,179 @@
+import { decodeBadges, type ChatterRoles } from "./badges";
+import type { Node } from "./client";
+
+/**
+ * Chatter who sent a message
+ */
+export type ChatAuthor = {
+  /**
+   * Twitch user ID
+   */
+  id: string;
+  /**
+   * Login name, in lowercase
+   */
+  login: string;
+  /**
+   * Display name
+   */
+  displayName: string;
+  /**
+   * Name color chosen by the chatter, such as "#FF0000", or null if none
+   */
+  color: string | null;
+};
+
+/**
+ * URLs of an emote image at each size
+ */
+export type EmoteImages = {
+  /**
+   * 28x28 image
+   */
+  small: string;
+  /**
+   * 56x56 image
+   */
+  medium: string;
+  /**
+   * 112x112 image
+   */
+  large: string;
+};
+
+/**
+ * Emote within the text of a message
+ */
+export type ChatEmote = {
+  /**
+   * Twitch emote ID
+   */
+  id: string;
+  /**
+   * Emote code as written in the message, such as "Kappa"
+   */
+  name: string;
+  /**
+   * Index of the first character of the emote in the text (inclusive)
+   */
+  start: number;
+  /**
+   * Index after the last character of the emote in the text (exclusive)
+   */
+  end: number;
+  /**
+   * URLs of the emote image
+   */
+  images: EmoteImages;
+};
+
+/**
+ * Badge displayed next to the name of a chatter
+ */
+export type ChatBadge = {
+  /**
+   * Badge set, such as "subscriber" or "moderator"
+   */
+  setId: string;
+  /**
+   * Version within the set, such as "12" for a 12-month subscriber badge
+   */
+  version: string;
+};
+
+/**
+ * Chat message, independent of the shape of the GraphQL response
+ */
+export type ChatMessage = {
+  /**
+   * Message ID
+   */
+  id: string;
+  /**
+   * Full text of the message, emotes included as their code
+   */
+  text: string;
+  /**
+   * Time the message was sent
+   */
+  createdAt: Date;
+  /**
+   * Offset of the message in the video in seconds
+   */
+  contentOffsetSeconds: number;
+  /**
+   * Chatter who sent the message, or null if the account no longer exists
+   */
+  author: ChatAuthor | null;
+  /**
+   * Emotes in the text, in order. `text.slice(start, end)` is the emote code.
+   */
+  emotes: ChatEmote[];
+  /**
+   * Badges of the chatter when the message was sent
+   */
+  badges: ChatBadge[];
+  /**
+   * Roles of the chatter when the message was sent, decoded from the badges
+   */
+  roles: ChatterRoles;
+};
+
+const emoteCdnUrl = "https://static-cdn.jtvnw.net/emoticons/v2/";
+
+/**
+ * Get the image URLs of an emote
+ * @param emoteId - Twitch emote ID
+ * @returns URLs of the emote image at each size
+ */
+export function emoteImages(emoteId: string): EmoteImages {
+  const url = (scale: string) =>
+    `${emoteCdnUrl}${encodeURIComponent(emoteId)}/default/dark/${scale}`;
+  return { small: url("1.0"), medium: url("2.0"), large: url("3.0") };
+}
+
+/**
+ * Convert a comment node into a chat message
+ * @param node - Comment node as returned by Twitch
+ * @returns Chat message
+ */
+export function toChatMessage(node: Node): ChatMessage {
+  let text = "";
+  const emotes: ChatEmote[] = [];
+  for (const fragment of node.message.fragments) {
+    if (fragment.emote !== null) {
+      emotes.push({
+        id: fragment.emote.emoteID,
+        name: fragment.text,
+        start: text.length,
+        end: text.length + fragment.text.length,
+        images: emoteImages(fragment.emote.emoteID),
+      });
+    }
+    text += fragment.text;
+  }
+
+  const badges = node.message.userBadges.map(({ setID, version }) => ({
+    setId: setID,
+    version,
+  }));
+
+  return {
+    id: node.id,
+    text,
+    createdAt: new Date(node.createdAt),
+    contentOffsetSeconds: node.contentOffsetSeconds,
+    author:
+      node.commenter === null
+        ? null
+        : {
+            id: node.commenter.id,
+            login: node.commenter.login,
+            displayName: node.commenter.displayName,
+            color: node.message.userColor,
+          },
+    emotes,
+    badges,
+    roles: decodeBadges(badges),
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * Pool limiting the number of requests in flight
+ */
+export class RequestPool {
+  private readonly concurrency: number;
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+
+  /**
+   * @param concurrency - Maximum number of tasks running at the same time
+   */
+  constructor(concurrency: number) {
+    this.concurrency = Math.max(1, concurrency);
+  }
+
+  /**
+   * Run a task as soon as a slot is available
+   * @param task - Task to run
+   * @returns Result of the task
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.concurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      // Hand the slot over to the next task
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
@@ -0,0 +1,188 @@
+import { InvalidInputError } from "./errors";
+
+/**
+ * Offset into a video: seconds, or a string such as "5025", "1h23m45s",
+ * "83m" or "01:23:45"
+ */
+export type Offset = number | string;
+
+/**
+ * Video identified by a video ID or URL
+ */
+export type VideoReference = {
+  /**
+   * Twitch VOD ID
+   */
+  videoId: string;
+  /**
+   * Offset in seconds given by the `t` parameter of the URL, if any
+   */
+  startSeconds?: number;
+};
+
+const twitchHosts = ["twitch.tv", "www.twitch.tv", "m.twitch.tv"];
+
+/**
+ * Parse an offset into seconds
+ * @param offset - Seconds, or a string such as "5025", "1h23m45s" or "01:23:45"
+ * @returns Offset in seconds
+ * @throws {InvalidInputError} When the offset is not a valid non-negative offset
+ */
+export function parseOffset(offset: Offset): number {
+  if (typeof offset === "number") {
+    if (!Number.isFinite(offset) || offset < 0) {
+      throw new InvalidInputError(`Invalid offset: ${offset}`, String(offset));
+    }
+    return offset;
+  }
+
+  const value = offset.trim();
+
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+
+  const units = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/.exec(value);
+  if (units !== null && value !== "") {
+    const [, hours, minutes, seconds] = units;
+    return (
+      Number(hours ?? 0) * 3600 +
+      Number(minutes ?? 0) * 60 +
+      Number(seconds ?? 0)
+    );
+  }
+
+  const clock = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})$/.exec(value);
+  if (clock !== null) {
+    const [, hours, minutes, seconds] = clock;
+    // Minutes may only run past 59 when there is no hours field, as in "83:20"
+    if (Number(seconds) < 60 && (hours === undefined || Number(minutes) < 60)) {
+      return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds);
+    }
+  }
+
+  throw new InvalidInputError(`Invalid offset: "${offset}"`, offset);
+}
+
+/**
+ * Parse a video ID or a Twitch video URL, such as
+ * "https://www.twitch.tv/videos/123456789?t=1h23m45s",
+ * "twitch.tv/videos/123456789" or "https://m.twitch.tv/videos/123456789"
+ * @param input - Video ID or URL
+ * @returns Video ID, and the start offset given by the URL if any
+ * @throws {InvalidInputError} When the input is neither a video ID nor a
+ * Twitch video URL, or its offset is invalid
+ */
+export function parseVideoReference(input: string): VideoReference {
+  const value = input.trim();
+
+  const id = /^v?(\d+)$/.exec(value);
+  if (id !== null) {
+    return { videoId: id[1]! };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+  } catch {
+    throw new InvalidInputError(`Invalid video ID or URL: "${input}"`, input);
+  }
+
+  let videoId: string | undefined;
+  if (twitchHosts.includes(url.hostname)) {
+    videoId = /^\/videos\/(\d+)\/?$/.exec(url.pathname)?.[1];
+  } else if (url.hostname === "player.twitch.tv") {
+    videoId = /^v?(\d+)$/.exec(url.searchParams.get("video") ?? "")?.[1];
+  }
+
+  if (videoId === undefined) {
+    throw new InvalidInputError(`Invalid video ID or URL: "${input}"`, input);
+  }
+
+  const time = url.searchParams.get("t");
+  if (time === null) {
+    return { videoId };
+  }
+
+  return { videoId, startSeconds: parseOffset(time) };
+}
+
+/**
+ * Parse a clip slug or a Twitch clip URL, such as
+ * "https://clips.twitch.tv/AwkwardHelplessSalamanderSwiftRage",
+ * "https://www.twitch.tv/channel/clip/AwkwardHelplessSalamanderSwiftRage" or
+ * "https://clips.twitch.tv/embed?clip=AwkwardHelplessSalamanderSwiftRage"
+ * @param input - Clip slug or URL
+ * @returns Clip slug
+ * @throws {InvalidInputError} When the input is neither a clip slug nor a
+ * Twitch clip URL
+ */
+export function parseClipReference(input: string): string {
+  const value = input.trim();
+
+  if (/^[\w-]+$/.test(value)) {
+    return value;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+  } catch {
+    throw new InvalidInputError(`Invalid clip slug or URL: "${input}"`, input);
+  }
+
+  let slug: string | undefined;
+  if (url.hostname === "clips.twitch.tv") {
+    slug =
+      url.pathname === "/embed"
+        ? (url.searchParams.get("clip") ?? undefined)
+        : /^\/([\w-]+)\/?$/.exec(url.pathname)?.[1];
+  } else if (twitchHosts.includes(url.hostname)) {
+    slug = /^(?:\/[\w-]+)?\/clip\/([\w-]+)\/?$/.exec(url.pathname)?.[1];
+  }
+
+  if (slug === undefined || !/^[\w-]+$/.test(slug)) {
+    throw new InvalidInputError(`Invalid clip slug or URL: "${input}"`, input);
+  }
+
+  return slug;
+}
+
+/**
+ * Parse a channel login or a Twitch channel URL, such as
+ * "https://www.twitch.tv/channel" or "twitch.tv/channel"
+ * @param input - Channel login or URL
+ * @returns Channel login, in lowercase
+ * @throws {InvalidInputError} When the input is neither a channel login nor a
+ * Twitch channel URL
+ */
+export function parseChannelReference(input: string): string {
+  const value = input.trim();
+
+  if (/^\w+$/.test(value)) {
+    return value.toLowerCase();
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+  } catch {
+    throw new InvalidInputError(
+      `Invalid channel login or URL: "${input}"`,
+      input,
+    );
+  }
+
+  const login = twitchHosts.includes(url.hostname)
+    ? /^\/(\w+)\/?$/.exec(url.pathname)?.[1]
+    : undefined;
+
+  if (login === undefined) {
+    throw new InvalidInputError(
+      `Invalid channel login or URL: "${input}"`,
+      input,
+    );
+  }
+
+  return login.toLowerCase();
+}
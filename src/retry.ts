@@ -0,0 +1,225 @@
+import { AbortError, HttpError } from "./errors";
+
+/**
+ * Retry policy for HTTP requests
+ */
+export type RetryPolicy = {
+  /**
+   * Maximum number of attempts, including the first one
+   * @default 3
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first retry in milliseconds
+   * @default 500
+   */
+  baseDelayMs?: number;
+  /**
+   * Upper bound for a single delay in milliseconds
+   * @default 30000
+   */
+  maxDelayMs?: number;
+  /**
+   * Multiplier applied to the delay after each failed attempt
+   * @default 2
+   */
+  factor?: number;
+  /**
+   * Randomize each delay between 0 and the computed backoff
+   * @default true
+   */
+  jitter?: boolean;
+  /**
+   * HTTP status codes that are retried
+   * @default [408, 429, 500, 502, 503, 504]
+   */
+  retryStatusCodes?: number[];
+  /**
+   * Whether an error thrown by fetch itself is retried.
+   * By default, network errors (TypeError thrown by fetch) are retried.
+   */
+  isRetryableError?: (error: unknown) => boolean;
+  /**
+   * Wait for the duration given by the Retry-After header when present
+   * @default true
+   */
+  respectRetryAfter?: boolean;
+};
+
+/**
+ * Failed attempt that is about to be retried
+ */
+export type RetryAttempt = {
+  /**
+   * Request URL
+   */
+  url: string;
+  /**
+   * Number of the attempt that failed, starting from 1
+   */
+  attempt: number;
+  /**
+   * Delay before the next attempt in milliseconds
+   */
+  delayMs: number;
+  /**
+   * HTTP status code of the failed attempt, undefined when fetch threw
+   */
+  status: number | undefined;
+  /**
+   * Error thrown by fetch, undefined when a response was received
+   */
+  error: unknown;
+};
+
+const defaultRetryPolicy: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  factor: 2,
+  jitter: true,
+  retryStatusCodes: [408, 429, 500, 502, 503, 504],
+  isRetryableError: (error) => error instanceof TypeError,
+  respectRetryAfter: true,
+};
+
+/**
+ * Parse a Retry-After header value
+ * @param value - Header value, either delay seconds or an HTTP date
+ * @returns Delay in milliseconds, or undefined if absent or invalid
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (value === null) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (value.trim() !== "" && Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * Compute the delay before the next attempt
+ * @param policy - Resolved retry policy
+ * @param attempt - Number of the attempt that just failed, starting from 1
+ * @param retryAfterMs - Delay requested by the server, if any
+ * @returns Delay in milliseconds
+ */
+function computeDelay(
+  policy: Required<RetryPolicy>,
+  attempt: number,
+  retryAfterMs: number | undefined,
+): number {
+  if (policy.respectRetryAfter && retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, policy.maxDelayMs);
+  }
+
+  const backoff = Math.min(
+    policy.baseDelayMs * policy.factor ** (attempt - 1),
+    policy.maxDelayMs,
+  );
+
+  return policy.jitter ? Math.random() * backoff : backoff;
+}
+
+/**
+ * Throw an AbortError if the signal has been aborted
+ * @param signal - Abort signal
+ * @throws {AbortError} When the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal | null): void {
+  if (signal?.aborted) {
+    throw new AbortError(undefined, { cause: signal.reason });
+  }
+}
+
+/**
+ * Wait for the given duration, rejecting early if the signal is aborted
+ * @param ms - Duration in milliseconds
+ * @param signal - Abort signal
+ * @throws {AbortError} When the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError(undefined, { cause: signal.reason }));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError(undefined, { cause: signal?.reason }));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Fetch a URL, retrying transient failures according to the policy
+ * @param url - Request URL
+ * @param init - Request options passed to fetch
+ * @param retry - Retry policy, merged over the defaults
+ * @param fetchImpl - fetch implementation
+ * @param onRetry - Called before waiting for each retry
+ * @returns Successful response
+ * @throws {HttpError} When the response is not OK after all attempts
+ * @throws {AbortError} When the request is aborted through init.signal
+ */
+export async function fetchWithRetry(
+  url: string,
+  init?: RequestInit,
+  retry?: RetryPolicy,
+  fetchImpl: typeof fetch = fetch,
+  onRetry?: (attempt: RetryAttempt) => void,
+): Promise<Response> {
+  const policy = { ...defaultRetryPolicy, ...retry };
+  const signal = init?.signal;
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+
+    let res: Response;
+    try {
+      res = await fetchImpl(url, init);
+    } catch (error) {
+      throwIfAborted(signal);
+      if (attempt >= policy.maxAttempts || !policy.isRetryableError(error)) {
+        throw error;
+      }
+      const delayMs = computeDelay(policy, attempt, undefined);
+      onRetry?.({ url, attempt, delayMs, status: undefined, error });
+      await sleep(delayMs, signal);
+      continue;
+    }
+
+    if (res.ok) {
+      return res;
+    }
+
+    if (
+      attempt >= policy.maxAttempts ||
+      !policy.retryStatusCodes.includes(res.status)
+    ) {
+      throw new HttpError(res.status, url, undefined, {
+        attempts: attempt,
+        headers: res.headers,
+      });
+    }
+
+    const retryAfterMs = parseRetryAfter(res.headers.get("retry-after"));
+    const delayMs = computeDelay(policy, attempt, retryAfterMs);
+    onRetry?.({ url, attempt, delayMs, status: res.status, error: undefined });
+    await sleep(delayMs, signal);
+  }
+}
@@ -0,0 +1,396 @@
+import type {
+  FetchAllMessagesProgress,
+  FetchChunkProgress,
+  Node,
+} from "./client";
+import { AbortError } from "./errors";
+
+/**
+ * Time range of a video fetched by a single sequential walker.
+ * While the chunk is being fetched, `end` may shrink when the rest of its
+ * range is split off to another walker.
+ */
+export type Chunk = {
+  /**
+   * Start offset in seconds (inclusive)
+   */
+  start: number;
+  /**
+   * End offset in seconds (exclusive)
+   */
+  end: number;
+  /**
+   * Offset of the last fetched node in seconds
+   */
+  offset: number;
+  /**
+   * Number of nodes fetched so far
+   */
+  count: number;
+  /**
+   * Number of pages fetched so far that were followed by another page
+   */
+  pages: number;
+  /**
+   * Whether the last fetched page had no next page, meaning that the video
+   * ends within the chunk
+   */
+  endReached: boolean;
+  /**
+   * Whether fetching stopped at `offset` because the last fetched page had a
+   * next page but no cursor to follow it
+   */
+  stoppedEarly: boolean;
+};
+
+/**
+ * Options for ChunkScheduler
+ */
+export type ChunkSchedulerOptions = {
+  /**
+   * Number of chunks fetched at the same time
+   */
+  concurrency: number;
+  /**
+   * Fetch the nodes of a chunk, stopping at its current end.
+   * `onPage` must be called each time a page is followed by another one.
+   */
+  fetchChunk: (chunk: Chunk, onPage: () => void) => Promise<Node[]>;
+  /**
+   * Called with each fetched chunk before it is marked as completed
+   */
+  saveChunk?: ((chunk: Chunk, nodes: Node[]) => Promise<void>) | undefined;
+  /**
+   * Progress callback
+   */
+  onProgress?: ((progress: FetchAllMessagesProgress) => void) | undefined;
+  /**
+   * Maximum number of chunks started ahead of the chunk being consumed
+   * through results(), so that a slow consumer does not buffer the whole video.
+   * Unlimited by default.
+   */
+  lookahead?: number | undefined;
+};
+
+type Entry = {
+  chunk: Chunk;
+  nodes: Promise<Node[]>;
+  resolve: (nodes: Node[]) => void;
+  reject: (error: unknown) => void;
+  completed: boolean;
+};
+
+/**
+ * Chunks whose remaining range is shorter than this are never split
+ */
+const minSplitSeconds = 60;
+
+/**
+ * Schedules chunks over a fixed number of walkers.
+ * When a walker runs out of queued chunks, it takes over the second half of
+ * the running chunk with the most remaining messages, estimated from the
+ * message density observed so far.
+ */
+export class ChunkScheduler {
+  private readonly options: ChunkSchedulerOptions;
+  /**
+   * Every chunk, sorted by start offset. Their ranges never overlap.
+   */
+  private readonly entries: Entry[] = [];
+  private readonly queue: Entry[] = [];
+  private readonly running = new Set<Entry>();
+  private readonly failure: Promise<never>;
+  private rejectFailure!: (error: unknown) => void;
+  private failed = false;
+  private waiters: Array<() => void> = [];
+  /**
+   * Index of the chunk being consumed through results()
+   */
+  private consumed = 0;
+
+  constructor(options: ChunkSchedulerOptions) {
+    this.options = options;
+    this.failure = new Promise<never>((_resolve, reject) => {
+      this.rejectFailure = reject;
+    });
+    this.failure.catch(() => {});
+  }
+
+  /**
+   * Add a chunk to fetch, or a chunk whose nodes are already known
+   * @param start - Start offset in seconds
+   * @param end - End offset in seconds
+   * @param nodes - Nodes of the chunk, if it does not need fetching
+   */
+  add(start: number, end: number, nodes?: Node[]): void {
+    const entry = this.insert({
+      start,
+      end,
+      offset: start,
+      count: 0,
+      pages: 0,
+      endReached: false,
+      stoppedEarly: false,
+    });
+
+    if (nodes !== undefined) {
+      entry.chunk.count = nodes.length;
+      entry.completed = true;
+      entry.resolve(nodes);
+    } else {
+      this.queue.push(entry);
+    }
+  }
+
+  /**
+   * Fetch every queued chunk
+   * @throws {AbortError} When aborted, listing the completed chunks
+   */
+  async run(): Promise<void> {
+    for (let i = 0; i < this.options.concurrency; i++) {
+      void this.work();
+    }
+
+    const completion = (async () => {
+      // Chunks split off while waiting are inserted after the awaited one
+      for (let index = 0; index < this.entries.length; index++) {
+        await this.entries[index]!.nodes;
+      }
+    })();
+
+    await Promise.race([completion, this.failure]);
+  }
+
+  /**
+   * Iterate over the nodes of each chunk in order of start offset,
+   * as soon as the chunk is completed
+   */
+  async *results(): AsyncGenerator<Node[]> {
+    let index = 0;
+    while (index < this.entries.length) {
+      this.consumed = index;
+      // Chunks further ahead may start now
+      this.wake();
+      const entry = this.entries[index]!;
+      const nodes = await entry.nodes;
+      // Release the nodes so consumed chunks can be garbage collected
+      entry.nodes = Promise.resolve([]);
+      yield nodes;
+      // Chunks split off while waiting are inserted right after this one
+      index = this.entries.indexOf(entry) + 1;
+    }
+  }
+
+  /**
+   * Stop fetching: queued chunks are never started and are rejected with the
+   * given reason. Running chunks are left to be stopped by their own signal.
+   * @param reason - Reason the remaining chunks are rejected with
+   */
+  cancel(reason: unknown): void {
+    if (this.failed) {
+      return;
+    }
+    this.failed = true;
+    this.rejectFailure(reason);
+
+    for (const queued of this.queue.splice(0)) {
+      queued.reject(reason);
+    }
+    this.wake();
+  }
+
+  /**
+   * Get every chunk in order of start offset
+   * @returns Chunks, including the ones split off while fetching
+   */
+  chunks(): Chunk[] {
+    return this.entries.map(({ chunk }) => chunk);
+  }
+
+  /**
+   * Get the progress of every chunk in order of start offset
+   * @returns Progress of each chunk, including the ones split off while fetching
+   */
+  progress(): FetchChunkProgress[] {
+    return this.entries.map(({ chunk, completed }) => ({
+      start: chunk.start,
+      end: chunk.end,
+      offset: completed ? chunk.end : Math.min(chunk.offset, chunk.end),
+      messages: chunk.count,
+      completed,
+    }));
+  }
+
+  private async work(): Promise<void> {
+    while (!this.failed) {
+      const entry = this.dequeue() ?? this.split();
+      if (entry === undefined) {
+        if (this.running.size === 0 && this.queue.length === 0) {
+          return;
+        }
+        // Wait until a running chunk may be worth splitting, or the consumer
+        // moves on to the next chunk
+        await new Promise<void>((resolve) => this.waiters.push(resolve));
+        continue;
+      }
+
+      this.running.add(entry);
+      try {
+        const nodes = await this.options.fetchChunk(entry.chunk, () =>
+          this.wake(),
+        );
+        await this.options.saveChunk?.(entry.chunk, nodes);
+        entry.completed = true;
+        entry.resolve(nodes);
+        this.reportProgress();
+      } catch (error) {
+        this.fail(entry, error);
+      } finally {
+        this.running.delete(entry);
+        this.wake();
+      }
+    }
+  }
+
+  /**
+   * Take the next queued chunk, unless it is too far ahead of the consumer
+   * @returns Queued chunk, or undefined if there is none to start
+   */
+  private dequeue(): Entry | undefined {
+    const entry = this.queue[0];
+    const { lookahead } = this.options;
+    if (
+      entry === undefined ||
+      (lookahead !== undefined &&
+        this.entries.indexOf(entry) > this.consumed + lookahead)
+    ) {
+      return undefined;
+    }
+    return this.queue.shift();
+  }
+
+  private wake(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const resolve of waiters) {
+      resolve();
+    }
+  }
+
+  /**
+   * Split off the second half of the running chunk with the most remaining work
+   * @returns New chunk to fetch, or undefined if no chunk is worth splitting
+   */
+  private split(): Entry | undefined {
+    let target: Entry | undefined;
+    let maxWork = 0;
+
+    for (const entry of this.running) {
+      const { chunk } = entry;
+      const remaining = chunk.end - chunk.offset;
+      // Only chunks known to have more pages are split
+      if (chunk.pages === 0 || remaining < minSplitSeconds * 2) {
+        continue;
+      }
+      const density = chunk.count / (chunk.offset - chunk.start + 1);
+      const work = remaining * density;
+      if (work > maxWork) {
+        maxWork = work;
+        target = entry;
+      }
+    }
+
+    if (target === undefined) {
+      return undefined;
+    }
+
+    const middle = Math.floor((target.chunk.offset + target.chunk.end) / 2);
+    const entry = this.insert({
+      start: middle,
+      end: target.chunk.end,
+      offset: middle,
+      count: 0,
+      pages: 0,
+      endReached: false,
+      stoppedEarly: false,
+    });
+    target.chunk.end = middle;
+
+    return entry;
+  }
+
+  private insert(chunk: Chunk): Entry {
+    let resolve!: (nodes: Node[]) => void;
+    let reject!: (error: unknown) => void;
+    const nodes = new Promise<Node[]>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    // Failures are surfaced by run() and results()
+    nodes.catch(() => {});
+
+    const entry: Entry = { chunk, nodes, resolve, reject, completed: false };
+    const index = this.entries.findIndex((e) => e.chunk.start > chunk.start);
+    if (index === -1) {
+      this.entries.push(entry);
+    } else {
+      this.entries.splice(index, 0, entry);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Reject a failed chunk and every chunk that has not started yet.
+   * Chunks already running are left to complete.
+   */
+  private fail(entry: Entry, error: unknown): void {
+    const reason =
+      error instanceof AbortError
+        ? new AbortError(error.message, {
+            cause: error.cause,
+            completedChunks: this.entries
+              .filter((e) => e.completed)
+              .map(({ chunk }) => ({ start: chunk.start, end: chunk.end })),
+          })
+        : error;
+
+    entry.reject(reason);
+
+    if (this.failed) {
+      return;
+    }
+    this.failed = true;
+    this.rejectFailure(reason);
+
+    for (const queued of this.queue.splice(0)) {
+      queued.reject(reason);
+    }
+  }
+
+  private reportProgress(): void {
+    if (!this.options.onProgress) {
+      return;
+    }
+
+    let totalSeconds = 0;
+    let completedSeconds = 0;
+    let completedChunks = 0;
+    for (const { chunk, completed } of this.entries) {
+      totalSeconds += chunk.end - chunk.start;
+      if (completed) {
+        completedSeconds += chunk.end - chunk.start;
+        completedChunks++;
+      }
+    }
+
+    this.options.onProgress({
+      totalChunks: this.entries.length,
+      completedChunks,
+      percentage:
+        totalSeconds === 0
+          ? 100
+          : Math.round((completedSeconds / totalSeconds) * 100),
+    });
+  }
+}
@@ -1,63 +1,302 @@
 import { z } from "zod";
 
 /**
- * Response schema for VideoCommentsByOffsetOrCursor query
+ * Schema for a single GraphQL error
  */
-export const schema = z.array(
-  z.object({
+const graphqlErrorSchema = z.object({
+  message: z.string(),
+  path: z.array(z.union([z.string(), z.number()])).optional(),
+});
+
+/**
+ * Schema for a GraphQL result that carries errors instead of data
+ */
+export const graphqlErrorsSchema = z.object({
+  errors: z.array(graphqlErrorSchema).min(1),
+});
+
+/**
+ * Full text of the VideoCommentsByOffsetOrCursor query, sent when the
+ * persisted query is not found
+ */
+export const commentsQuery = `query VideoCommentsByOffsetOrCursor($videoID: ID!, $contentOffsetSeconds: Int, $cursor: Cursor) {
+  video(id: $videoID) {
+    id
+    comments(contentOffsetSeconds: $contentOffsetSeconds, after: $cursor) {
+      edges {
+        cursor
+        node {
+          id
+          commenter {
+            id
+            login
+            displayName
+          }
+          contentOffsetSeconds
+          createdAt
+          message {
+            fragments {
+              emote {
+                id
+                emoteID
+                from
+              }
+              text
+            }
+            userBadges {
+              id
+              setID
+              version
+            }
+            userColor
+          }
+        }
+      }
+      pageInfo {
+        hasNextPage
+        hasPreviousPage
+      }
+    }
+  }
+}`;
+
+/**
+ * Schema for a single comment edge
+ */
+export const commentEdgeSchema = z.object({
+  cursor: z.string(),
+  node: z.object({
+    id: z.string(),
+    commenter: z.union([
+      z.null(),
+      z.object({
+        id: z.string(),
+        login: z.string(),
+        displayName: z.string(),
+      }),
+    ]),
+    contentOffsetSeconds: z.number(),
+    createdAt: z.string(),
+    message: z.object({
+      fragments: z.array(
+        z.object({
+          emote: z.union([
+            z.null(),
+            z.object({
+              id: z.string(),
+              emoteID: z.string(),
+              from: z.number(),
+            }),
+          ]),
+          text: z.string(),
+        }),
+      ),
+      userBadges: z.array(
+        z.object({
+          id: z.string(),
+          setID: z.string(),
+          version: z.string(),
+        }),
+      ),
+      userColor: z.union([z.null(), z.string()]),
+    }),
+  }),
+});
+
+/**
+ * Create the response schema for a single VideoCommentsByOffsetOrCursor
+ * operation
+ * @param edge - Schema of each comment edge
+ * @returns Response schema
+ */
+function createCommentsResultSchema<T extends z.ZodTypeAny>(edge: T) {
+  return z.object({
     data: z.object({
-      video: z.object({
-        comments: z.union([
-          z.null(),
-          z.object({
-            edges: z.array(
-              z.object({
-                cursor: z.string(),
-                node: z.object({
-                  id: z.string(),
-                  commenter: z.union([
-                    z.null(),
-                    z.object({
-                      id: z.string(),
-                      login: z.string(),
-                      displayName: z.string(),
-                    }),
-                  ]),
-                  contentOffsetSeconds: z.number(),
-                  createdAt: z.string(),
-                  message: z.object({
-                    fragments: z.array(
-                      z.object({
-                        emote: z.union([
-                          z.null(),
-                          z.object({
-                            id: z.string(),
-                            emoteID: z.string(),
-                            from: z.number(),
-                          }),
-                        ]),
-                        text: z.string(),
-                      }),
-                    ),
-                    userBadges: z.array(
-                      z.object({
-                        id: z.string(),
-                        setID: z.string(),
-                        version: z.string(),
-                      }),
-                    ),
-                    userColor: z.union([z.null(), z.string()]),
-                  }),
-                }),
+      // null when the video does not exist
+      video: z.union([
+        z.null(),
+        z.object({
+          // null when the comments cannot be accessed or are unavailable
+          comments: z.union([
+            z.null(),
+            z.object({
+              edges: z.array(edge),
+              pageInfo: z.object({
+                hasNextPage: z.boolean(),
+                hasPreviousPage: z.boolean(),
               }),
-            ),
-            pageInfo: z.object({
-              hasNextPage: z.boolean(),
-              hasPreviousPage: z.boolean(),
             }),
+          ]),
+        }),
+      ]),
+    }),
+    // Errors reported alongside partial data
+    errors: z.array(graphqlErrorSchema).optional(),
+  });
+}
+
+/**
+ * Response schema for a single VideoCommentsByOffsetOrCursor operation
+ */
+export const commentsResultSchema =
+  createCommentsResultSchema(commentEdgeSchema);
+
+/**
+ * Response schema for a single VideoCommentsByOffsetOrCursor operation whose
+ * edges are validated one by one
+ */
+export const lenientCommentsResultSchema = createCommentsResultSchema(
+  z.unknown(),
+);
+
+/**
+ * GraphQL query for video metadata
+ */
+export const videoMetadataQuery = `query VideoMetadata($videoID: ID!) {
+  video(id: $videoID) {
+    id
+    title
+    lengthSeconds
+    createdAt
+    publishedAt
+    viewCount
+    owner {
+      id
+      login
+      displayName
+    }
+    game {
+      id
+      name
+      displayName
+    }
+  }
+}`;
+
+/**
+ * Response schema for VideoMetadata query
+ */
+export const videoMetadataSchema = z.object({
+  data: z.object({
+    video: z.union([
+      z.null(),
+      z.object({
+        id: z.string(),
+        title: z.union([z.null(), z.string()]),
+        lengthSeconds: z.number(),
+        createdAt: z.string(),
+        publishedAt: z.union([z.null(), z.string()]),
+        viewCount: z.number(),
+        owner: z.union([
+          z.null(),
+          z.object({
+            id: z.string(),
+            login: z.string(),
+            displayName: z.string(),
+          }),
+        ]),
+        game: z.union([
+          z.null(),
+          z.object({
+            id: z.string(),
+            name: z.string(),
+            displayName: z.string(),
           }),
         ]),
       }),
-    }),
+    ]),
   }),
-);
+  // Errors reported alongside partial data
+  errors: z.array(graphqlErrorSchema).optional(),
+});
+
+/**
+ * GraphQL query for the source video of a clip
+ */
+export const clipSourceQuery = `query ClipSource($slug: ID!) {
+  clip(slug: $slug) {
+    id
+    slug
+    durationSeconds
+    videoOffsetSeconds
+    video {
+      id
+    }
+  }
+}`;
+
+/**
+ * Response schema for ClipSource query
+ */
+export const clipSourceSchema = z.object({
+  data: z.object({
+    clip: z.union([
+      z.null(),
+      z.object({
+        id: z.string(),
+        slug: z.string(),
+        durationSeconds: z.number(),
+        videoOffsetSeconds: z.union([z.null(), z.number()]),
+        video: z.union([z.null(), z.object({ id: z.string() })]),
+      }),
+    ]),
+  }),
+});
+
+/**
+ * Full text of the ChannelBadges query, listing the global badges and the
+ * badges of a channel
+ */
+export const channelBadgesQuery = `query ChannelBadges($login: String!) {
+  badges {
+    setID
+    version
+    title
+    image1x: imageURL(size: NORMAL)
+    image2x: imageURL(size: DOUBLE)
+    image4x: imageURL(size: QUADRUPLE)
+  }
+  user(login: $login) {
+    id
+    broadcastBadges {
+      setID
+      version
+      title
+      image1x: imageURL(size: NORMAL)
+      image2x: imageURL(size: DOUBLE)
+      image4x: imageURL(size: QUADRUPLE)
+    }
+  }
+}`;
+
+/**
+ * Schema for a single badge of the ChannelBadges query
+ */
+const badgeSchema = z.object({
+  setID: z.string(),
+  version: z.string(),
+  title: z.string(),
+  image1x: z.string(),
+  image2x: z.string(),
+  image4x: z.string(),
+});
+
+/**
+ * Response schema for ChannelBadges query
+ */
+export const channelBadgesSchema = z.object({
+  data: z.object({
+    badges: z.union([z.null(), z.array(z.union([z.null(), badgeSchema]))]),
+    // null when the channel does not exist
+    user: z.union([
+      z.null(),
+      z.object({
+        id: z.string(),
+        broadcastBadges: z.union([
+          z.null(),
+          z.array(z.union([z.null(), badgeSchema])),
+        ]),
+      }),
+    ]),
+  }),
+});
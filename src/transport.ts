@@ -0,0 +1,38 @@
+/**
+ * HTTP transport used for every request
+ */
+export type Transport = {
+  /**
+   * fetch implementation
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+  /**
+   * Twitch GraphQL endpoint URL
+   * @default "https://gql.twitch.tv/gql"
+   */
+  gqlUrl?: string;
+  /**
+   * Base URL of video pages, the video ID is appended to it
+   * @default "https://www.twitch.tv/videos/"
+   */
+  videoPageUrl?: string;
+  /**
+   * Base URL of clip pages, the clip slug is appended to it
+   * @default "https://clips.twitch.tv/"
+   */
+  clipPageUrl?: string;
+  /**
+   * Base URL of channel pages, the channel login is appended to it
+   * @default "https://www.twitch.tv/"
+   */
+  channelPageUrl?: string;
+};
+
+export const defaultGqlUrl = "https://gql.twitch.tv/gql";
+
+export const defaultVideoPageUrl = "https://www.twitch.tv/videos/";
+
+export const defaultClipPageUrl = "https://clips.twitch.tv/";
+
+export const defaultChannelPageUrl = "https://www.twitch.tv/";